@@ -0,0 +1,119 @@
+#!/usr/bin/env tsx
+
+/**
+ * Benchmark: page folds on the main thread vs on a worker pool
+ *
+ * Usage: npm run bench -- [orders=200000] [pageSize=1000] [pool sizes=1,2,4] [dimension=category]
+ *
+ * The synthetic pages are generated up front, so only validation, folding
+ * and merging are timed. Besides throughput it reports how long the event
+ * loop was blocked at worst (what a WebSocket client would notice), and
+ * checks that every run ends with exactly the same totals and snapshot.
+ */
+
+import { availableParallelism } from 'node:os';
+import type { Dimension, RankedSnapshot } from './shared/types';
+import { syntheticOrderPages } from './shared/synthetic';
+import { streamTopN, defineAggregation } from './shared/aggregation';
+import { streamTopNParallel, createFoldPool } from './shared/parallel';
+import { DIMENSIONS } from './shared/subscriptions';
+import { defaultPoolSize } from './shared/workers';
+
+const [orderArg = '200000', pageSizeArg = '1000', poolArg, dimensionArg = 'category'] = process.argv.slice(2);
+const orderCount = Number(orderArg);
+const pageSize = Number(pageSizeArg);
+const poolSizes = poolArg
+  ? poolArg.split(',').map(Number)
+  : [...new Set([1, 2, defaultPoolSize(), availableParallelism()])];
+const dimension = dimensionArg as Dimension;
+
+if (!Number.isInteger(orderCount) || orderCount < 1 || !Number.isInteger(pageSize) || pageSize < 1) {
+  console.error('❌ Usage: npm run bench -- [orders] [pageSize] [pool sizes, e.g. 1,2,4] [dimension]');
+  process.exit(1);
+}
+if (poolSizes.some(size => !Number.isInteger(size) || size < 1)) {
+  console.error(`❌ Pool sizes must be positive integers, got "${poolArg}"`);
+  process.exit(1);
+}
+if (!Object.hasOwn(DIMENSIONS, dimension)) {
+  console.error(`❌ Unknown dimension "${dimension}" (use ${Object.keys(DIMENSIONS).join(', ')})`);
+  process.exit(1);
+}
+
+console.log('🚀 Benchmark: Parallel Page Folds\n');
+console.log(`🧮 ${orderCount} synthetic orders in pages of ${pageSize}, grouped by ${dimension}; ${availableParallelism()} core(s)`);
+
+const pages = await Array.fromAsync(syntheticOrderPages({ seed: 7, count: orderCount }, { pageSize }));
+
+// Replays the pages without ever waiting, like a backfill from a fast source
+async function* replay() {
+  yield* pages;
+}
+
+type Run = { label: string; ms: number; blockedMs: number; totals: Map<string, number>; last?: RankedSnapshot<string> };
+
+// Longest gap between ticks of a 1 ms timer: how long a socket would have waited
+const watchEventLoop = () => {
+  let last = performance.now();
+  let longest = 0;
+  const tick = () => {
+    const now = performance.now();
+    longest = Math.max(longest, now - last);
+    last = now;
+  };
+  const timer = setInterval(tick, 1);
+  return async (): Promise<number> => {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    tick();
+    clearInterval(timer);
+    return longest;
+  };
+};
+
+const measure = async (label: string, fold: (onUpdate: (snapshot: RankedSnapshot<string>) => void) => Promise<Map<string, number>>): Promise<Run> => {
+  let last: RankedSnapshot<string> | undefined;
+  const stopWatching = watchEventLoop();
+  const start = performance.now();
+  const totals = await fold(snapshot => { last = snapshot; });
+  const ms = performance.now() - start;
+  return { label, ms, blockedMs: await stopWatching(), totals, last };
+};
+
+const runs: Run[] = [];
+
+runs.push(await measure('main thread', onUpdate =>
+  streamTopN(replay(), defineAggregation({ key: DIMENSIONS[dimension] }), 10, onUpdate)));
+
+for (const size of poolSizes) {
+  const pool = createFoldPool(size);
+  // Start-up (thread and module loading) is not part of the measurement
+  await Promise.all(Array.from({ length: size }, () => pool.run({ page: [], pageIndex: 0, dimension })));
+  try {
+    runs.push(await measure(`${size} worker${size === 1 ? '' : 's'}`, onUpdate =>
+      streamTopNParallel(replay(), dimension, 10, onUpdate, { pool })));
+  } finally {
+    await pool.close();
+  }
+}
+
+// --- Report ------------------------------------------------------------------
+
+const [baseline] = runs;
+const sameAs = (run: Run) =>
+  run.totals.size === baseline!.totals.size &&
+  run.totals.entries().every(([key, total]) => baseline!.totals.get(key) === total) &&
+  JSON.stringify(run.last) === JSON.stringify(baseline!.last);
+
+console.log('\n| Run | Time | Orders/s | Speed-up | Longest event-loop block | Same result |');
+console.log('|---|---:|---:|---:|---:|:---:|');
+for (const run of runs) {
+  console.log(`| ${run.label} | ${run.ms.toFixed(0)} ms | ${Math.round(orderCount / (run.ms / 1000))} | ${(baseline!.ms / run.ms).toFixed(2)}× | ${run.blockedMs.toFixed(0)} ms | ${sameAs(run) ? '✅' : '❌'} |`);
+}
+
+if (!runs.every(sameAs)) {
+  console.error('\n❌ Parallel totals differ from the main-thread fold');
+  process.exit(1);
+}
+console.log(availableParallelism() === 1
+  ? '\n💡 Single core: the workers compete with the main thread, so the pool runs are slower; the event loop stays responsive either way'
+  : '\n💡 Speed-up needs spare cores; the event loop stays responsive either way');
@@ -0,0 +1,104 @@
+/**
+ * Category Drill-down Component
+ *
+ * Demonstrates:
+ * - Live secondary aggregations for one category (top SKUs and customers)
+ * - Order count and average order value next to the totals
+ */
+
+import { formatMoney } from '../shared/money';
+import type { CategoryDetail } from '../shared/types';
+
+type Props = {
+  detail: CategoryDetail;
+  currency: string;
+  onClose: () => void;
+};
+
+const listStyle = {
+  flex: 1,
+  padding: '12px 16px',
+  borderRadius: '8px',
+  backgroundColor: '#f7fafc',
+  fontSize: '13px',
+  color: '#2d3748'
+};
+
+const rowStyle = {
+  display: 'flex',
+  justifyContent: 'space-between',
+  padding: '2px 0'
+};
+
+export default function CategoryDrilldown({ detail, currency, onClose }: Props) {
+  const stats: Array<[string, string]> = [
+    ['Net sales', formatMoney(detail.net, currency)],
+    ['Orders', detail.orders.toLocaleString()],
+    ['Avg. order value', formatMoney(detail.aov, currency)],
+    ['Units', detail.units.toLocaleString()],
+  ];
+
+  return (
+    <div style={{
+      marginTop: '16px',
+      padding: '16px',
+      borderRadius: '8px',
+      border: '1px solid #e2e8f0',
+      backgroundColor: 'white'
+    }}>
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: '12px'
+      }}>
+        <span style={{ fontWeight: 600, fontSize: '14px', color: '#2d3748', textTransform: 'capitalize' }}>
+          🔍 {detail.category}
+        </span>
+        <button onClick={onClose} style={{
+          padding: '2px 8px',
+          borderRadius: '4px',
+          border: '1px solid #cbd5e0',
+          backgroundColor: 'white',
+          color: '#2d3748',
+          fontSize: '12px',
+          cursor: 'pointer'
+        }}>
+          ✕ Close
+        </button>
+      </div>
+
+      <div style={{ display: 'flex', gap: '12px', marginBottom: '12px' }}>
+        {stats.map(([label, value]) => (
+          <div key={label} style={{ flex: 1 }}>
+            <div style={{ fontSize: '11px', color: '#718096' }}>{label}</div>
+            <div style={{ fontSize: '16px', fontWeight: 600, color: '#2d3748' }}>{value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', gap: '12px' }}>
+        <div style={listStyle}>
+          <div style={{ fontWeight: 600, marginBottom: '4px' }}>Top SKUs</div>
+          {detail.topSkus.length === 0 && <div style={{ color: '#a0aec0', fontStyle: 'italic' }}>No paid orders yet</div>}
+          {detail.topSkus.map((s, i) => (
+            <div key={s.key} style={rowStyle}>
+              <span>{i + 1}. {s.key} <span style={{ color: '#718096' }}>×{s.qty}</span></span>
+              <span>{formatMoney(s.sum, currency)}</span>
+            </div>
+          ))}
+        </div>
+        <div style={listStyle}>
+          <div style={{ fontWeight: 600, marginBottom: '4px' }}>Top customers</div>
+          {detail.topCustomers.length === 0 && <div style={{ color: '#a0aec0', fontStyle: 'italic' }}>No paid orders yet</div>}
+          {detail.topCustomers.map((c, i) => (
+            <div key={c.key} style={rowStyle}>
+              <span>{i + 1}. {c.key} <span style={{ color: '#718096' }}>{c.orders} order{c.orders === 1 ? '' : 's'}</span></span>
+              <span>{formatMoney(c.sum, currency)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
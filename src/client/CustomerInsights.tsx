@@ -0,0 +1,154 @@
+/**
+ * Customer Insights Panel
+ *
+ * Demonstrates:
+ * - Customer analytics streamed next to the category leaderboard
+ * - RFM segments, monthly cohort retention and the top customers
+ */
+
+import { formatMoney } from '../shared/money';
+import type { CustomerAnalytics, RfmSegment } from '../shared/types';
+
+type Props = {
+  analytics: CustomerAnalytics;
+  currency: string;
+};
+
+const segmentLabels: Record<RfmSegment, { label: string; color: string; background: string }> = {
+  champions: { label: '🏆 Champions', color: '#276749', background: '#f0fff4' },
+  loyal: { label: '💚 Loyal', color: '#2f855a', background: '#f0fff4' },
+  new: { label: '🌱 New', color: '#2c5282', background: '#ebf8ff' },
+  promising: { label: '✨ Promising', color: '#2b6cb0', background: '#ebf8ff' },
+  'needs-attention': { label: '👀 Needs attention', color: '#975a16', background: '#fffff0' },
+  'at-risk': { label: '⚠️ At risk', color: '#c05621', background: '#fffaf0' },
+  hibernating: { label: '💤 Hibernating', color: '#4a5568', background: '#edf2f7' },
+};
+
+const boxStyle = {
+  flex: 1,
+  padding: '12px 16px',
+  borderRadius: '8px',
+  backgroundColor: '#f7fafc',
+  fontSize: '13px',
+  color: '#2d3748'
+};
+
+const rowStyle = {
+  display: 'flex',
+  justifyContent: 'space-between',
+  padding: '2px 0'
+};
+
+const percent = (part: number, whole: number) =>
+  whole > 0 ? `${Math.round((part / whole) * 100)}%` : '—';
+
+export default function CustomerInsights({ analytics, currency }: Props) {
+  const { customers, repeatCustomers, segments, cohorts, topCustomers, asOf } = analytics;
+  const months = Math.max(0, ...cohorts.map(c => c.active.length));
+
+  const stats: Array<[string, string]> = [
+    ['Customers', customers.toLocaleString()],
+    ['Repeat customers', `${repeatCustomers.toLocaleString()} (${percent(repeatCustomers, customers)})`],
+    ['As of', asOf ? new Date(asOf).toLocaleDateString() : '—'],
+  ];
+
+  return (
+    <div style={{
+      marginTop: '16px',
+      padding: '16px',
+      borderRadius: '8px',
+      border: '1px solid #e2e8f0',
+      backgroundColor: 'white'
+    }}>
+      <div style={{ fontWeight: 600, fontSize: '14px', color: '#2d3748', marginBottom: '12px' }}>
+        👥 Customers
+      </div>
+
+      <div style={{ display: 'flex', gap: '12px', marginBottom: '12px' }}>
+        {stats.map(([label, value]) => (
+          <div key={label} style={{ flex: 1 }}>
+            <div style={{ fontSize: '11px', color: '#718096' }}>{label}</div>
+            <div style={{ fontSize: '16px', fontWeight: 600, color: '#2d3748' }}>{value}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* RFM segments */}
+      <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', marginBottom: '12px' }}>
+        {segments.filter(s => s.customers > 0).map(s => {
+          const badge = segmentLabels[s.segment];
+          return (
+            <div key={s.segment} style={{
+              padding: '6px 10px',
+              borderRadius: '6px',
+              fontSize: '12px',
+              color: badge.color,
+              backgroundColor: badge.background
+            }}>
+              <div style={{ fontWeight: 600 }}>{badge.label}</div>
+              <div>{s.customers.toLocaleString()} · {formatMoney(s.net, currency)}</div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div style={{ display: 'flex', gap: '12px', alignItems: 'flex-start' }}>
+        {/* Monthly cohorts: share of each cohort ordering again N months later */}
+        <div style={{ ...boxStyle, overflowX: 'auto' }}>
+          <div style={{ fontWeight: 600, marginBottom: '4px' }}>Cohort retention</div>
+          {cohorts.length === 0 ? (
+            <div style={{ color: '#a0aec0', fontStyle: 'italic' }}>No paid orders yet</div>
+          ) : (
+            <table style={{ borderCollapse: 'collapse', fontSize: '12px' }}>
+              <thead>
+                <tr style={{ color: '#718096' }}>
+                  <th style={{ textAlign: 'left', paddingRight: '8px' }}>Cohort</th>
+                  <th style={{ textAlign: 'right', paddingRight: '8px' }}>Size</th>
+                  {Array.from({ length: months }, (_, k) => (
+                    <th key={k} style={{ textAlign: 'center', minWidth: '36px' }}>M{k}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {cohorts.map(c => (
+                  <tr key={c.cohort}>
+                    <td style={{ paddingRight: '8px' }}>{c.cohort}</td>
+                    <td style={{ textAlign: 'right', paddingRight: '8px' }}>{c.customers.toLocaleString()}</td>
+                    {c.active.map((active, k) => (
+                      <td key={k} style={{
+                        textAlign: 'center',
+                        backgroundColor: `rgba(49, 130, 206, ${c.customers > 0 ? (active / c.customers) * 0.8 : 0})`,
+                        color: active / c.customers > 0.5 ? 'white' : '#2d3748'
+                      }}>
+                        {percent(active, c.customers)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Top customers by net spend */}
+        <div style={boxStyle}>
+          <div style={{ fontWeight: 600, marginBottom: '4px' }}>Top customers</div>
+          {topCustomers.map((c, i) => (
+            <div key={c.customerId} style={rowStyle} title={`First order ${new Date(c.firstOrderAt).toLocaleDateString()}, last ${new Date(c.lastOrderAt).toLocaleDateString()}`}>
+              <span>
+                {i + 1}. {c.customerId}
+                <span style={{ marginLeft: '6px', fontSize: '11px', color: segmentLabels[c.segment].color }}>
+                  {segmentLabels[c.segment].label}
+                </span>
+              </span>
+              <span>
+                <span style={{ color: '#718096', marginRight: '8px' }}>{c.orders} order{c.orders === 1 ? '' : 's'}</span>
+                <span style={{ fontWeight: 600 }}>{formatMoney(c.net, currency)}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+/**
+ * Parameterized Leaderboard Component
+ *
+ * Demonstrates:
+ * - Per-client subscriptions over the WebSocket protocol
+ * - Re-subscribing when the chosen parameters change or after a reconnect
+ * - Ranking by any mergeable metric (count, AOV, distinct customers, p95, …)
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { Dimension, Metric, SubscriptionParams, LeaderboardEntry } from '../shared/types';
+import { formatMoney, REPORTING_CURRENCY } from '../shared/money';
+import { useLiveSocket } from './useLiveSocket';
+import { SERVER_URL } from './serverUrl';
+
+const dimensionLabels: Record<Dimension, string> = {
+  category: 'Category',
+  customerId: 'Customer',
+  sku: 'SKU',
+  day: 'Day',
+};
+
+// Amounts are money in minor units; the rest are counts
+const metricLabels: Record<Metric, { label: string; money: boolean }> = {
+  revenue: { label: 'Revenue', money: true },
+  orders: { label: 'Orders', money: false },
+  units: { label: 'Units', money: false },
+  aov: { label: 'Avg order value', money: true },
+  minOrder: { label: 'Smallest order', money: true },
+  maxOrder: { label: 'Largest order', money: true },
+  customers: { label: 'Customers (≈)', money: false },
+  p50Line: { label: 'Median line (≈)', money: true },
+  p95Line: { label: 'p95 line (≈)', money: true },
+};
+
+const windowLabels: Record<string, string> = {
+  '': 'All time',
+  hourly: 'This hour',
+  daily: 'Today',
+  'last-7-days': 'Last 7 days',
+};
+
+const selectStyle = {
+  padding: '4px 8px',
+  borderRadius: '6px',
+  border: '1px solid #e2e8f0',
+  fontSize: '13px',
+  color: '#2d3748',
+  backgroundColor: 'white'
+};
+
+export default function LiveLeaderboard() {
+  const [dimension, setDimension] = useState<Dimension>('customerId');
+  const [windowName, setWindowName] = useState<string>('');
+  const [metric, setMetric] = useState<Metric>('revenue');
+  const [rows, setRows] = useState<LeaderboardEntry[]>([]);
+  const [currency, setCurrency] = useState<string>(REPORTING_CURRENCY);
+  const [fromPage, setFromPage] = useState(0);  // > 0: subscribed mid-cycle, earlier pages not counted
+  const [error, setError] = useState<string>('');
+  const subscription = useRef<string | null>(null);
+
+  const { status, send, decodeError } = useLiveSocket(SERVER_URL, {
+    onMessage: (msg) => {
+      if (msg.type === 'subscribed') {
+        subscription.current = msg.subscription;
+        setError('');
+      } else if (msg.type === 'leaderboard' && msg.subscription === subscription.current) {
+        setRows(msg.items);
+        setCurrency(msg.currency ?? REPORTING_CURRENCY);
+        setFromPage(msg.fromPageIndex ?? 0);
+        setError('');
+      } else if (msg.type === 'error') {
+        setError(msg.message);
+      }
+    },
+  });
+  const connected = status === 'open';
+
+  // (Re)subscribe whenever the parameters change or the connection comes back;
+  // the server forgets a client's subscriptions when its socket closes
+  useEffect(() => {
+    if (!connected) {
+      subscription.current = null;
+      return;
+    }
+
+    // Windowed leaderboards only rank by revenue
+    const params: Partial<SubscriptionParams> = { dimension, limit: 5, window: windowName || null, metric: windowName ? 'revenue' : metric };
+    send({ type: 'subscribe', params });
+    setRows([]);
+
+    return () => {
+      if (subscription.current) send({ type: 'unsubscribe', subscription: subscription.current });
+      subscription.current = null;
+    };
+  }, [connected, dimension, windowName, metric, send]);
+
+  const shown: Metric = windowName ? 'revenue' : metric;
+  const format = (value: number, of: Metric) =>
+    metricLabels[of].money ? formatMoney(value, currency) : value.toLocaleString();
+
+  return (
+    <div style={{
+      marginTop: '24px',
+      padding: '16px',
+      borderRadius: '8px',
+      border: '1px solid #e2e8f0'
+    }}>
+      <div style={{
+        display: 'flex',
+        gap: '8px',
+        alignItems: 'center',
+        marginBottom: '12px',
+        fontSize: '14px',
+        fontWeight: 600,
+        color: '#2d3748'
+      }}>
+        Top
+        <select value={dimension} onChange={e => setDimension(e.target.value as Dimension)} style={selectStyle}>
+          {Object.entries(dimensionLabels).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <select value={windowName} onChange={e => setWindowName(e.target.value)} style={selectStyle}>
+          {Object.entries(windowLabels).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        by
+        <select
+          value={shown}
+          disabled={windowName !== ''}
+          title={windowName ? 'Windowed leaderboards rank by revenue' : undefined}
+          onChange={e => setMetric(e.target.value as Metric)}
+          style={selectStyle}
+        >
+          {Object.entries(metricLabels).map(([value, { label }]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div style={{ fontSize: '12px', color: '#c53030', marginBottom: '8px' }}>⚠️ {error}</div>
+      )}
+      {fromPage > 0 && (
+        <div style={{ fontSize: '12px', color: '#718096', marginBottom: '8px' }}>
+          ⏳ Partial: counting since page {fromPage + 1} of this cycle
+        </div>
+      )}
+      {decodeError && (
+        <div style={{ fontSize: '12px', color: '#c05621', marginBottom: '8px' }}>🧩 Ignored a malformed update: {decodeError}</div>
+      )}
+
+      {rows.length === 0 ? (
+        <div style={{ fontSize: '13px', color: '#a0aec0', fontStyle: 'italic' }}>
+          {connected ? 'No data for this leaderboard yet...' : status === 'reconnecting' ? 'Reconnecting…' : 'Connect to server to see live updates'}
+        </div>
+      ) : (
+        rows.map((r, i) => (
+          <div key={r.key} style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            padding: '4px 0',
+            fontSize: '13px',
+            color: '#2d3748'
+          }}>
+            <span>{i + 1}. {r.key}</span>
+            <span>
+              {shown !== 'revenue' && (
+                <span style={{ color: '#a0aec0', marginRight: '12px' }}>{formatMoney(r.sum, currency)}</span>
+              )}
+              <span style={{ fontWeight: 600 }}>{format(r.metrics?.[shown] ?? r.sum, shown)}</span>
+            </span>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -6,72 +6,179 @@
  * - Real-time WebSocket integration
  * - Simple error handling for UX
  * - Delta calculations with change indicators
+ * - Sequenced delta updates with resync on gaps
+ * - Auto-reconnect with a visible countdown and stale-data marking
+ * - Server errors and malformed messages shown instead of swallowed
+ * - Pausing live mode to replay recorded snapshots
+ * - Per-row sparklines and a trend chart, one point per snapshot
+ * - Click a row to drill down into its top SKUs and customers
+ * - Status and top categories of each merged order feed
+ * - Server endpoint from `?server=` or build-time env, shown in the status bar
+ * - Customer segments, cohort retention and top customers below the feeds
  */
 
-import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { formatMoney, REPORTING_CURRENCY } from '../shared/money';
+import { applyDelta } from '../shared/deltas';
+import type { CategoryDetail, CategoryEntry, ClientMessage, CustomerAnalytics, IntakeStats, ServerMessage, SnapshotRecord, SourceView } from '../shared/types';
+import { useLiveSocket, useNow } from './useLiveSocket';
+import ReplayTimeline from './ReplayTimeline';
+import Sparkline from './Sparkline';
+import TrendChart from './TrendChart';
+import CategoryDrilldown from './CategoryDrilldown';
+import SourcesPanel from './SourcesPanel';
+import CustomerInsights from './CustomerInsights';
+import { appendPoint, mergeSeries, toTrendPoint, valuesOf, colorOf, type TrendPoint } from './trends';
+import { SERVER_URL } from './serverUrl';
 
-type Entry = { category: string; sum: number };
+// Shown next to the connection status, to tell side-by-side instances apart
+const SERVER_HOST = new URL(SERVER_URL).host;
+// Rows older than this are dimmed and flagged, connected or not
+const STALE_AFTER_MS = 30_000;
+// Snapshots fetched when pausing live mode
+const REPLAY_LIMIT = 500;
+// Points kept for the trend chart (backfilled from history on connect)
+const TREND_POINTS = 120;
+const SPARKLINE_POINTS = 30;
+
+type Entry = CategoryEntry;
+
+const entryKey = (e: Entry) => e.category;
+const bySumDesc = (a: Entry, b: Entry) => b.sum - a.sum;
+type WindowView = { window: string; start: string; end: string; items: Array<{ category: string; sum: number }> };
+type Replay = { entries: SnapshotRecord[]; index: number; loading: boolean };
+
+const windowLabels: Record<string, string> = {
+  daily: 'Today',
+  'last-7-days': 'This week',
+};
 
 export default function LiveTopCategories() {
   const [rows, setRows] = useState<Entry[]>([]);
-  const [connected, setConnected] = useState(false);
   const [lastUpdate, setLastUpdate] = useState<string>('');
+  const [lastReceived, setLastReceived] = useState<number | undefined>(undefined);
   const [pageIndex, setPageIndex] = useState<number>(-1);
+  const [rejected, setRejected] = useState<number>(0);
+  const [currency, setCurrency] = useState<string>(REPORTING_CURRENCY);
+  const [windows, setWindows] = useState<WindowView[]>([]);
+  const [late, setLate] = useState<number>(0);
+  const [serverError, setServerError] = useState<string | undefined>(undefined);
+  const [replay, setReplay] = useState<Replay | undefined>(undefined);  // undefined = live
+  const [series, setSeries] = useState<TrendPoint[]>([]);
+  const [selected, setSelected] = useState<string | undefined>(undefined);
+  const [detail, setDetail] = useState<{ detail: CategoryDetail; currency: string } | undefined>(undefined);
+  const [sources, setSources] = useState<SourceView[]>([]);
+  const [customers, setCustomers] = useState<{ analytics: CustomerAnalytics; currency: string } | undefined>(undefined);
   const prev = useRef<Map<string, number>>(new Map());
+  const lastSeq = useRef<number | undefined>(undefined);
+  const lastAt = useRef<string>('');
 
-  useEffect(() => {
-    console.log('🔌 Connecting to WebSocket server...');
-    const ws = new WebSocket('ws://localhost:8080');
-
-    ws.onopen = () => {
-      setConnected(true);
-      console.log('✅ Connected to live data stream');
+  const onMessage = (msg: ServerMessage, send: (msg: ClientMessage) => void) => {
+    const applyMeta = (update: { at: string; pageIndex: number; intake?: IntakeStats; currency?: string }) => {
+      setLastUpdate(new Date(update.at).toLocaleTimeString());
+      lastAt.current = update.at;
+      setLastReceived(Date.now());
+      setPageIndex(update.pageIndex);
+      setRejected(update.intake?.rejected ?? 0);
+      setCurrency(update.currency ?? REPORTING_CURRENCY);
+      setServerError(undefined);  // data is flowing again
     };
 
-    ws.onclose = () => {
-      setConnected(false);
-      console.log('❌ Disconnected from server');
-    };
-
-    ws.onmessage = (ev) => {
-      try {
-        const msg = JSON.parse(ev.data);
-        if (msg.type === 'top-categories' && msg.items) {
-          setRows(msg.items);
-          setLastUpdate(new Date(msg.at).toLocaleTimeString());
-          setPageIndex(msg.pageIndex);
-          console.log(`📊 Received update for page ${msg.pageIndex + 1}`);
-        } else if (msg.type === 'hello') {
-          console.log('👋 Server greeting:', msg.msg);
-        }
-      } catch (err) {
-        console.warn('Failed to parse message:', err);
+    if (msg.type === 'top-categories') {
+      // Full snapshot (on connect or after a resync) replaces everything
+      lastSeq.current = msg.seq;
+      setRows(msg.items);
+      applyMeta(msg);
+      console.log(`📊 Received snapshot for page ${msg.pageIndex + 1} (seq ${msg.seq})`);
+    } else if (msg.type === 'top-categories-delta') {
+      // Deltas only apply on top of the immediately preceding sequence number
+      if (lastSeq.current === undefined) return;   // waiting for a full snapshot
+      if (msg.seq !== lastSeq.current + 1) {
+        console.warn(`⚠️ Sequence gap (have ${lastSeq.current}, got ${msg.seq}), requesting resync`);
+        send({ type: 'resync', lastSeq: lastSeq.current });
+        lastSeq.current = undefined;
+        return;
       }
-    };
+      lastSeq.current = msg.seq;
+      setRows(current => applyDelta(current, msg, entryKey, bySumDesc));
+      applyMeta(msg);
+      console.log(`📊 Received delta for page ${msg.pageIndex + 1} (seq ${msg.seq})`);
+    } else if (msg.type === 'top-windows') {
+      setWindows(msg.windows.filter(w => !w.final));
+      setLate(msg.late.orders);
+    } else if (msg.type === 'history' && msg.requestId === 'trend') {
+      setSeries(current => mergeSeries(msg.entries.map(toTrendPoint), current, TREND_POINTS));
+    } else if (msg.type === 'history') {
+      // Ignored if the user went back to live while it was loading
+      setReplay(current => current && { entries: msg.entries, index: msg.entries.length - 1, loading: false });
+    } else if (msg.type === 'category-detail') {
+      if (msg.detail.category === selected) setDetail({ detail: msg.detail, currency: msg.currency ?? REPORTING_CURRENCY });
+    } else if (msg.type === 'sources') {
+      setSources(msg.sources);
+    } else if (msg.type === 'customers') {
+      setCustomers({ analytics: msg.analytics, currency: msg.currency ?? REPORTING_CURRENCY });
+    } else if (msg.type === 'error') {
+      console.warn(`⚠️ Server error (${msg.code ?? 'unknown'}):`, msg.message);
+      setServerError(msg.message);
+    } else if (msg.type === 'hello') {
+      console.log(`👋 Server greeting (protocol v${msg.protocol ?? '?'}):`, msg.msg);
+    }
+  };
 
-    ws.onerror = (err) => {
-      console.error('WebSocket error:', err);
-    };
+  // A new connection always starts with a full snapshot; trends are backfilled
+  const onOpen = (send: (msg: ClientMessage) => void) => {
+    lastSeq.current = undefined;
+    send({ type: 'history-request', requestId: 'trend', limit: TREND_POINTS });
+  };
 
-    return () => {
-      console.log('🔌 Closing WebSocket connection');
-      ws.close();
-    };
-  }, []);
+  const { status, retryAt, attempt, decodeError, send, reconnect } = useLiveSocket(SERVER_URL, { onMessage, onOpen });
+  const now = useNow();
+  const connected = status === 'open';
+  const retryIn = retryAt === undefined ? undefined : Math.max(0, Math.ceil((retryAt - now) / 1000));
+  const stale = lastReceived !== undefined && now - lastReceived > STALE_AFTER_MS;
 
-  // Compute change indicators vs previous snapshot
-  const withDelta = useMemo(() => rows.map(r => ({
-    ...r,
-    prev: prev.current.get(r.category),
-  })), [rows]);
+  // (Re)open the drill-down whenever the selection changes or the connection comes back
+  useEffect(() => {
+    if (!connected || selected === undefined) return;
+    send({ type: 'drilldown', category: selected });
+    return () => send({ type: 'drilldown', category: null });
+  }, [connected, selected, send]);
+
+  const toggleDrilldown = (category: string) => {
+    setDetail(undefined);
+    setSelected(current => current === category ? undefined : category);
+  };
+
+  // Live updates keep arriving underneath a replay, so going back is instant
+  const pause = () => {
+    setReplay({ entries: [], index: 0, loading: true });
+    send({ type: 'history-request', requestId: 'replay', limit: REPLAY_LIMIT });
+  };
+  const replayed = replay?.entries[replay.index];
+  const shownCurrency = replayed?.currency ?? currency;
 
-  // Store current snapshot for next diff
+  // Compute change indicators vs previous snapshot (the previous recorded one when replaying)
+  const withDelta = useMemo(() => {
+    if (!replay || !replayed) return rows.map(r => ({ ...r, prev: prev.current.get(r.category) }));
+    const before = replay.entries[replay.index - 1];
+    const sums = new Map(before?.items.map(e => [e.category, e.sum]));
+    return replayed.items.map(r => ({ ...r, prev: before ? sums.get(r.category) : r.sum }));
+  }, [rows, replay, replayed]);
+
+  // Store current snapshot for next diff, and as the next trend point
   useEffect(() => {
     const next = new Map<string, number>();
     for (const r of rows) next.set(r.category, r.sum);
     prev.current = next;
+    const seq = lastSeq.current;
+    if (seq !== undefined) setSeries(current => appendPoint(current, toTrendPoint({ seq, at: lastAt.current, items: rows }), TREND_POINTS));
   }, [rows]);
 
+  // While replaying, charts show the recorded timeline up to the scrubbed point
+  const replaySeries = useMemo(() => replay?.entries.map(toTrendPoint), [replay?.entries]);
+  const chartSeries = replaySeries ?? series;
+  const sparkSeries = (replaySeries ? replaySeries.slice(0, (replay?.index ?? 0) + 1) : series).slice(-SPARKLINE_POINTS);
+
   return (
     <div>
       {/* Status indicator */}
@@ -90,18 +197,82 @@ export default function LiveTopCategories() {
           fontWeight: 500,
           fontSize: '14px'
         }}>
-          {connected ? '🟢 Live Stream Active' : '🔴 Disconnected'}
+          {connected ? '🟢 Live Stream Active' :
+           retryIn !== undefined ? `🟠 Reconnecting in ${retryIn}s (attempt ${attempt})` :
+           status === 'reconnecting' ? '🟠 Reconnecting…' :
+           status === 'closed' ? '⛔ Connection refused' :
+           '🔴 Disconnected'}
+          <span style={{ marginLeft: '8px', fontSize: '12px', fontWeight: 400, color: '#718096' }}>
+            {SERVER_HOST}
+          </span>
+          {!connected && status !== 'closed' && (
+            <button onClick={reconnect} style={{
+              marginLeft: '8px',
+              padding: '2px 8px',
+              borderRadius: '4px',
+              border: '1px solid #feb2b2',
+              backgroundColor: 'white',
+              color: '#c53030',
+              fontSize: '12px',
+              cursor: 'pointer'
+            }}>
+              Retry now
+            </button>
+          )}
         </span>
         {lastUpdate && (
           <span style={{
             fontSize: '12px',
-            color: '#718096'
+            color: stale ? '#c05621' : '#718096'
           }}>
             Page {pageIndex + 1} • Last update: {lastUpdate}
+            {stale && ' • ⏳ stale'}
+            {rejected > 0 && ` • ⚠️ ${rejected} rejected`}
+            {connected && !replay && (
+              <button onClick={pause} style={{
+                marginLeft: '8px',
+                padding: '2px 8px',
+                borderRadius: '4px',
+                border: '1px solid #cbd5e0',
+                backgroundColor: 'white',
+                color: '#2d3748',
+                fontSize: '12px',
+                cursor: 'pointer'
+              }}>
+                ⏸ Pause
+              </button>
+            )}
           </span>
         )}
       </div>
 
+      {/* Time travel through recorded snapshots */}
+      {replay && (
+        <ReplayTimeline
+          entries={replay.entries}
+          index={replay.index}
+          loading={replay.loading}
+          onScrub={index => setReplay({ ...replay, index })}
+          onLive={() => setReplay(undefined)}
+        />
+      )}
+
+      {/* Problems reported by the server or found while decoding */}
+      {(serverError || decodeError) && (
+        <div style={{
+          marginBottom: '16px',
+          padding: '8px 16px',
+          borderRadius: '8px',
+          backgroundColor: '#fffaf0',
+          border: '1px solid #fbd38d',
+          fontSize: '13px',
+          color: '#c05621'
+        }}>
+          {serverError && <div>⚠️ {serverError}</div>}
+          {decodeError && <div>🧩 Ignored a malformed update: {decodeError}</div>}
+        </div>
+      )}
+
       {/* Data table */}
       <table style={{
         borderCollapse: 'collapse',
@@ -109,7 +280,8 @@ export default function LiveTopCategories() {
         backgroundColor: 'white',
         borderRadius: '8px',
         overflow: 'hidden',
-        boxShadow: '0 1px 3px rgba(0,0,0,0.1)'
+        boxShadow: '0 1px 3px rgba(0,0,0,0.1)',
+        opacity: stale && !replay ? 0.5 : 1
       }}>
         <thead>
           <tr style={{ backgroundColor: '#f7fafc' }}>
@@ -133,7 +305,14 @@ export default function LiveTopCategories() {
               fontWeight: 600,
               color: '#2d3748',
               fontSize: '14px'
-            }}>Total Sales</th>
+            }}>Net Sales</th>
+            <th style={{
+              textAlign: 'center',
+              padding: '12px 16px',
+              fontWeight: 600,
+              color: '#2d3748',
+              fontSize: '14px'
+            }}>Trend</th>
             <th style={{
               textAlign: 'right',
               padding: '12px 16px',
@@ -146,7 +325,7 @@ export default function LiveTopCategories() {
         <tbody>
           {withDelta.length === 0 ? (
             <tr>
-              <td colSpan={4} style={{
+              <td colSpan={5} style={{
                 padding: '32px',
                 textAlign: 'center',
                 color: '#a0aec0',
@@ -164,9 +343,10 @@ export default function LiveTopCategories() {
               const isDown = delta < 0;
 
               return (
-                <tr key={r.category} style={{
+                <tr key={r.category} onClick={() => toggleDrilldown(r.category)} style={{
                   borderBottom: i < withDelta.length - 1 ? '1px solid #e2e8f0' : 'none',
-                  backgroundColor: isNew ? '#f0fff4' : 'white'
+                  backgroundColor: r.category === selected ? '#ebf8ff' : isNew ? '#f0fff4' : 'white',
+                  cursor: 'pointer'
                 }}>
                   <td style={{
                     padding: '12px 16px',
@@ -202,7 +382,22 @@ export default function LiveTopCategories() {
                     fontWeight: 600,
                     color: '#2d3748'
                   }}>
-                    ${r.sum.toLocaleString()}
+                    {formatMoney(r.sum, shownCurrency)}
+                    {!!r.refunded && (
+                      <div style={{
+                        fontSize: '11px',
+                        fontWeight: 400,
+                        color: '#a0aec0'
+                      }}>
+                        {formatMoney(r.gross ?? 0, shownCurrency)} gross • −{formatMoney(r.refunded, shownCurrency)} refunded
+                      </div>
+                    )}
+                  </td>
+                  <td style={{
+                    padding: '12px 16px',
+                    textAlign: 'center'
+                  }}>
+                    <Sparkline values={valuesOf(sparkSeries, r.category)} color={colorOf(r.category)} />
                   </td>
                   <td style={{
                     padding: '12px 16px',
@@ -211,8 +406,8 @@ export default function LiveTopCategories() {
                     color: isUp ? '#38a169' : isDown ? '#e53e3e' : '#a0aec0',
                     opacity: isNew ? 0.6 : 1
                   }}>
-                    {isUp ? `+$${delta.toLocaleString()}` :
-                     isDown ? `-$${Math.abs(delta).toLocaleString()}` :
+                    {isUp ? `+${formatMoney(delta, shownCurrency)}` :
+                     isDown ? formatMoney(delta, shownCurrency) :
                      '—'}
                   </td>
                 </tr>
@@ -222,6 +417,62 @@ export default function LiveTopCategories() {
         </tbody>
       </table>
 
+      {/* Live detail for the clicked category */}
+      {selected !== undefined && detail && (
+        <CategoryDrilldown detail={detail.detail} currency={detail.currency} onClose={() => toggleDrilldown(selected)} />
+      )}
+
+      {/* Momentum of the top categories */}
+      <TrendChart series={chartSeries} currency={shownCurrency} markerSeq={replayed?.seq} />
+
+      {/* Event-time windows */}
+      {windows.length > 0 && !replay && (
+        <div style={{
+          marginTop: '16px',
+          display: 'flex',
+          gap: '12px'
+        }}>
+          {windows.map(w => (
+            <div key={w.window} style={{
+              flex: 1,
+              padding: '12px 16px',
+              borderRadius: '8px',
+              backgroundColor: '#f7fafc',
+              fontSize: '13px',
+              color: '#2d3748'
+            }}>
+              <div style={{ fontWeight: 600, marginBottom: '4px' }}>
+                {windowLabels[w.window] ?? w.window}
+                <span style={{ fontWeight: 400, color: '#718096', marginLeft: '6px', fontSize: '11px' }}>
+                  {new Date(w.start).toLocaleDateString()} – {new Date(w.end).toLocaleDateString()}
+                </span>
+              </div>
+              {w.items.map((it, i) => (
+                <div key={it.category} style={{ display: 'flex', justifyContent: 'space-between' }}>
+                  <span style={{ textTransform: 'capitalize' }}>{i + 1}. {it.category}</span>
+                  <span>{formatMoney(it.sum, currency)}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+      {late > 0 && !replay && (
+        <div style={{ marginTop: '8px', fontSize: '12px', color: '#c05621' }}>
+          ⏱️ {late} late order{late === 1 ? '' : 's'} arrived after their windows closed
+        </div>
+      )}
+
+      {/* Per-feed breakdown; a single healthy feed is just the table above */}
+      {!replay && (sources.length > 1 || sources.some(s => s.state === 'failed' || s.state === 'stalled' || s.state === 'retrying')) && (
+        <SourcesPanel sources={sources} currency={currency} />
+      )}
+
+      {/* Repeat purchases, RFM segments and cohorts */}
+      {!replay && customers && customers.analytics.customers > 0 && (
+        <CustomerInsights analytics={customers.analytics} currency={customers.currency} />
+      )}
+
       {/* Footer info */}
       <div style={{
         marginTop: '16px',
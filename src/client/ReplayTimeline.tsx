@@ -0,0 +1,90 @@
+/**
+ * Replay Timeline Component
+ *
+ * Demonstrates:
+ * - Scrubbing recorded snapshots by page and timestamp
+ * - Controlled inputs driven by the parent's replay state
+ */
+
+import type { SnapshotRecord } from '../shared/types';
+
+type Props = {
+  entries: SnapshotRecord[];
+  index: number;
+  loading: boolean;
+  onScrub: (index: number) => void;
+  onLive: () => void;
+};
+
+const buttonStyle = {
+  padding: '2px 8px',
+  borderRadius: '4px',
+  border: '1px solid #cbd5e0',
+  backgroundColor: 'white',
+  color: '#2d3748',
+  fontSize: '12px',
+  cursor: 'pointer'
+};
+
+export default function ReplayTimeline({ entries, index, loading, onScrub, onLive }: Props) {
+  const current = entries[index];
+  const first = entries[0];
+  const last = entries.at(-1);
+
+  return (
+    <div style={{
+      marginBottom: '16px',
+      padding: '12px 16px',
+      borderRadius: '8px',
+      backgroundColor: '#ebf8ff',
+      border: '1px solid #90cdf4',
+      fontSize: '13px',
+      color: '#2c5282'
+    }}>
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: '8px'
+      }}>
+        <span style={{ fontWeight: 600 }}>
+          ⏪ Replay{current && ` • Page ${current.pageIndex + 1} • ${new Date(current.at).toLocaleString()} • seq ${current.seq}`}
+        </span>
+        <button onClick={onLive} style={buttonStyle}>⏩ Back to live</button>
+      </div>
+
+      {loading ? (
+        <div style={{ fontStyle: 'italic' }}>Loading history…</div>
+      ) : entries.length === 0 ? (
+        <div style={{ fontStyle: 'italic' }}>No recorded snapshots yet</div>
+      ) : (
+        <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+          <button onClick={() => onScrub(Math.max(0, index - 1))} disabled={index === 0} style={buttonStyle}>◀</button>
+          <input
+            type="range"
+            min={0}
+            max={entries.length - 1}
+            value={index}
+            onChange={e => onScrub(Number(e.target.value))}
+            style={{ flex: 1 }}
+          />
+          <button onClick={() => onScrub(Math.min(entries.length - 1, index + 1))} disabled={index === entries.length - 1} style={buttonStyle}>▶</button>
+        </div>
+      )}
+
+      {first && last && (
+        <div style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          marginTop: '4px',
+          fontSize: '11px',
+          color: '#4a5568'
+        }}>
+          <span>{new Date(first.at).toLocaleString()}</span>
+          <span>{entries.length} snapshots</span>
+          <span>{new Date(last.at).toLocaleString()}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+/**
+ * Order Sources Panel
+ *
+ * Demonstrates:
+ * - Per-feed status reported by the server (streaming, stalled, failed, done)
+ * - Page retries and circuit breaker state of a failing feed
+ * - Each feed's own top categories next to the combined leaderboard
+ */
+
+import { formatMoney } from '../shared/money';
+import type { CircuitState, SourceState, SourceView } from '../shared/types';
+
+type Props = {
+  sources: ReadonlyArray<SourceView>;
+  currency: string;
+};
+
+const badges: Record<SourceState, { label: string; color: string; background: string }> = {
+  waiting: { label: '⏳ Waiting', color: '#4a5568', background: '#edf2f7' },
+  streaming: { label: '🟢 Streaming', color: '#276749', background: '#f0fff4' },
+  stalled: { label: '🐢 Stalled', color: '#975a16', background: '#fffff0' },
+  retrying: { label: '🔁 Retrying', color: '#c05621', background: '#fffaf0' },
+  done: { label: '🏁 Done', color: '#2c5282', background: '#ebf8ff' },
+  failed: { label: '❌ Failed', color: '#c53030', background: '#fff5f5' },
+};
+
+const circuitLabels: Record<CircuitState, string> = {
+  closed: 'closed',
+  open: '🔴 circuit open',
+  'half-open': '🟡 circuit half-open',
+};
+
+export default function SourcesPanel({ sources, currency }: Props) {
+  return (
+    <div style={{
+      marginTop: '16px',
+      display: 'flex',
+      gap: '12px',
+      flexWrap: 'wrap'
+    }}>
+      {sources.map(s => {
+        const badge = badges[s.state];
+        return (
+          <div key={s.source} style={{
+            flex: '1 1 180px',
+            padding: '12px 16px',
+            borderRadius: '8px',
+            backgroundColor: '#f7fafc',
+            fontSize: '13px',
+            color: '#2d3748'
+          }}>
+            <div style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              marginBottom: '4px'
+            }}>
+              <span style={{ fontWeight: 600 }}>{s.source}</span>
+              <span style={{
+                padding: '1px 6px',
+                borderRadius: '4px',
+                fontSize: '11px',
+                color: badge.color,
+                backgroundColor: badge.background
+              }}>
+                {badge.label}
+              </span>
+            </div>
+            <div style={{ fontSize: '11px', color: '#718096', marginBottom: '4px' }}>
+              {s.pages} page{s.pages === 1 ? '' : 's'} • {s.intake.accepted} orders
+              {s.intake.rejected > 0 && ` • ${s.intake.rejected} rejected`}
+              {s.lastPageAt && ` • last ${new Date(s.lastPageAt).toLocaleTimeString()}`}
+            </div>
+            {s.error && (
+              <div style={{ fontSize: '11px', color: '#c53030', marginBottom: '4px' }}>{s.error}</div>
+            )}
+            {(s.state === 'retrying' || (s.circuit && s.circuit !== 'closed')) && (
+              <div style={{ fontSize: '11px', color: '#c05621', marginBottom: '4px' }}>
+                {[
+                  s.circuit && s.circuit !== 'closed' && circuitLabels[s.circuit],
+                  s.state === 'retrying' && `attempt ${s.attempt ?? 1} failed`,
+                  s.state === 'retrying' && s.retryAt && `next at ${new Date(s.retryAt).toLocaleTimeString()}`,
+                ].filter(Boolean).join(' • ')}
+              </div>
+            )}
+            {s.items.map((it, i) => (
+              <div key={it.category} style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <span style={{ textTransform: 'capitalize' }}>{i + 1}. {it.category}</span>
+                <span>{formatMoney(it.sum, currency)}</span>
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+/**
+ * Sparkline Component
+ *
+ * Demonstrates:
+ * - Dependency-free SVG charts from pure path functions
+ */
+
+import { extentOf, linePath } from './trends';
+
+type Props = {
+  values: ReadonlyArray<number | null>;
+  width?: number;
+  height?: number;
+  color?: string;
+};
+
+export default function Sparkline({ values, width = 80, height = 20, color = '#3182ce' }: Props) {
+  if (values.filter(v => v !== null).length < 2) {
+    return <svg width={width} height={height} aria-hidden />;
+  }
+
+  const last = values.at(-1);
+  const extent = extentOf(values);
+  const [min, max] = extent;
+  const pad = 2;  // keep the stroke and end dot inside the box
+
+  return (
+    <svg width={width} height={height} aria-hidden style={{ overflow: 'visible' }}>
+      <g transform={`translate(${pad},${pad})`}>
+        <path
+          d={linePath(values, width - 2 * pad, height - 2 * pad, extent)}
+          fill="none"
+          stroke={color}
+          strokeWidth={1.5}
+          strokeLinejoin="round"
+          strokeLinecap="round"
+        />
+        {last !== null && last !== undefined && (
+          <circle
+            cx={width - 2 * pad}
+            cy={(height - 2 * pad) * (1 - (last - min) / (max - min))}
+            r={2}
+            fill={color}
+          />
+        )}
+      </g>
+    </svg>
+  );
+}
@@ -0,0 +1,100 @@
+/**
+ * Trend Chart Component
+ *
+ * Demonstrates:
+ * - Line chart of the top categories over time in plain SVG
+ * - Incremental updates: one point per snapshot, no refetching
+ */
+
+import { formatMoney } from '../shared/money';
+import { categoriesOf, colorOf, extentOf, linePath, valuesOf, type TrendPoint } from './trends';
+
+type Props = {
+  series: ReadonlyArray<TrendPoint>;
+  currency: string;
+  /** Highlight this snapshot (e.g. the one being replayed) */
+  markerSeq?: number;
+};
+
+const WIDTH = 600;
+const HEIGHT = 160;
+
+export default function TrendChart({ series, currency, markerSeq }: Props) {
+  if (series.length < 2) return null;
+
+  const categories = categoriesOf(series);
+  const extent = extentOf(categories.flatMap(c => valuesOf(series, c)));
+  const markerIndex = series.findIndex(p => p.seq === markerSeq);
+  const first = series[0];
+  const last = series.at(-1);
+
+  return (
+    <div style={{
+      marginTop: '16px',
+      padding: '12px 16px',
+      borderRadius: '8px',
+      backgroundColor: 'white',
+      boxShadow: '0 1px 3px rgba(0,0,0,0.1)',
+      fontSize: '11px',
+      color: '#718096'
+    }}>
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        marginBottom: '4px'
+      }}>
+        <span style={{ fontWeight: 600, fontSize: '13px', color: '#2d3748' }}>Net sales over time</span>
+        <span>{formatMoney(extent[1], currency)}</span>
+      </div>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        width="100%"
+        height={HEIGHT}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label="Net sales of the top categories over time"
+      >
+        <line x1={0} y1={HEIGHT} x2={WIDTH} y2={HEIGHT} stroke="#e2e8f0" vectorEffect="non-scaling-stroke" />
+        {markerIndex >= 0 && (
+          <line
+            x1={(markerIndex / (series.length - 1)) * WIDTH}
+            x2={(markerIndex / (series.length - 1)) * WIDTH}
+            y1={0}
+            y2={HEIGHT}
+            stroke="#90cdf4"
+            strokeDasharray="4 3"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+        {categories.map(category => (
+          <path
+            key={category}
+            d={linePath(valuesOf(series, category), WIDTH, HEIGHT, extent)}
+            fill="none"
+            stroke={colorOf(category)}
+            strokeWidth={2}
+            strokeLinejoin="round"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      </svg>
+
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        marginTop: '4px'
+      }}>
+        <span>{first && new Date(first.at).toLocaleTimeString()}</span>
+        <span style={{ display: 'flex', gap: '12px' }}>
+          {categories.map(category => (
+            <span key={category} style={{ textTransform: 'capitalize' }}>
+              <span style={{ color: colorOf(category) }}>●</span> {category}
+            </span>
+          ))}
+        </span>
+        <span>{last && new Date(last.at).toLocaleTimeString()}</span>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import LiveTopCategories from './LiveTopCategories';
+import LiveLeaderboard from './LiveLeaderboard';
 
 const container = document.getElementById('app-container');
 if (!container) {
@@ -11,5 +12,6 @@ const root = ReactDOM.createRoot(container);
 root.render(
   <React.StrictMode>
     <LiveTopCategories />
+    <LiveLeaderboard />
   </React.StrictMode>
 );
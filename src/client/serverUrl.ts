@@ -0,0 +1,42 @@
+/**
+ * Which server the dashboard talks to
+ *
+ * `?server=` in the page URL wins, then `VITE_SERVER_URL` at build time,
+ * then the default port on localhost. `host:port` and `http(s)://` URLs are
+ * accepted too and turned into WebSocket URLs, so one build can point at
+ * any of several instances running side by side.
+ */
+
+export const DEFAULT_SERVER_URL = 'ws://localhost:8080';
+
+/**
+ * `localhost:8081` → `ws://localhost:8081`, `https://x` → `wss://x`
+ */
+export const toWebSocketUrl = (value: string): string => {
+  const withScheme = /^[a-z][a-z\d+.-]*:\/\//i.test(value) ? value : `ws://${value}`;
+  const url = new URL(withScheme);
+  if (url.protocol === 'http:') url.protocol = 'ws:';
+  else if (url.protocol === 'https:') url.protocol = 'wss:';
+  else if (url.protocol !== 'ws:' && url.protocol !== 'wss:') {
+    throw new Error(`Unsupported server URL scheme "${url.protocol}" in "${value}"`);
+  }
+  return url.href.replace(/\/$/, '');
+};
+
+export const resolveServerUrl = (search = window.location.search): string => {
+  const candidates = [
+    new URLSearchParams(search).get('server'),
+    import.meta.env.VITE_SERVER_URL,
+  ];
+  for (const candidate of candidates) {
+    if (!candidate?.trim()) continue;
+    try {
+      return toWebSocketUrl(candidate.trim());
+    } catch (err) {
+      console.warn(`Ignoring server URL "${candidate}": ${(err as Error).message}`);
+    }
+  }
+  return DEFAULT_SERVER_URL;
+};
+
+export const SERVER_URL = resolveServerUrl();
@@ -0,0 +1,102 @@
+/**
+ * Rolling trend series and SVG geometry for the dashboard charts
+ *
+ * Pure functions only: the component appends one point per applied
+ * snapshot and the charts turn the series into path strings. A category
+ * outside the top N in some snapshot has no value there (`null`), which
+ * breaks its line instead of drawing a misleading drop to zero.
+ */
+
+import type { CategoryEntry } from '../shared/types';
+
+export type TrendPoint = {
+  seq: number;
+  at: string;
+  sums: Readonly<Record<string, number>>;
+};
+
+export const toTrendPoint = ({ seq, at, items }: { seq: number; at: string; items: ReadonlyArray<CategoryEntry> }): TrendPoint => ({
+  seq,
+  at,
+  sums: Object.fromEntries(items.map(e => [e.category, e.sum])),
+});
+
+/**
+ * Points from both series in sequence order, one per `seq`, newest `max` kept
+ */
+export const mergeSeries = (
+  a: ReadonlyArray<TrendPoint>,
+  b: ReadonlyArray<TrendPoint>,
+  max: number,
+): TrendPoint[] =>
+  [...new Map([...a, ...b].map(p => [p.seq, p] as const)).values()]
+    .toSorted((x, y) => x.seq - y.seq)
+    .slice(-max);
+
+export const appendPoint = (series: ReadonlyArray<TrendPoint>, point: TrendPoint, max: number): TrendPoint[] =>
+  (series.at(-1)?.seq ?? -Infinity) < point.seq
+    ? [...series, point].slice(-max)
+    : mergeSeries(series, [point], max);
+
+export const valuesOf = (series: ReadonlyArray<TrendPoint>, category: string): Array<number | null> =>
+  series.map(p => p.sums[category] ?? null);
+
+/**
+ * Every category that appears in the series, most recent leaders first
+ */
+export const categoriesOf = (series: ReadonlyArray<TrendPoint>): string[] => {
+  const latest = new Map<string, number>();
+  for (const p of series) for (const [category, sum] of Object.entries(p.sums)) latest.set(category, sum);
+  return latest.entries().toArray().toSorted(([, a], [, b]) => b - a).map(([category]) => category);
+};
+
+// --- Geometry ----------------------------------------------------------------
+
+export type Extent = readonly [min: number, max: number];
+
+export const extentOf = (values: ReadonlyArray<number | null>): Extent => {
+  const present = values.filter((v): v is number => v !== null);
+  if (present.length === 0) return [0, 1];
+  const min = Math.min(0, ...present);
+  const max = Math.max(...present);
+  return min === max ? [min, min + 1] : [min, max];
+};
+
+/**
+ * SVG path through `values` scaled into `width` x `height`; gaps start a new
+ * segment, and a lone point becomes a short tick so it stays visible
+ */
+export const linePath = (
+  values: ReadonlyArray<number | null>,
+  width: number,
+  height: number,
+  [min, max]: Extent,
+): string => {
+  const step = values.length > 1 ? width / (values.length - 1) : 0;
+  const y = (v: number) => height - ((v - min) / (max - min)) * height;
+
+  let path = '';
+  let drawing = false;
+  values.forEach((v, i) => {
+    if (v === null) {
+      drawing = false;
+      return;
+    }
+    const x = i * step;
+    const isolated = !drawing && (values[i + 1] ?? null) === null;
+    path += drawing ? `L${x.toFixed(1)},${y(v).toFixed(1)}` : `M${x.toFixed(1)},${y(v).toFixed(1)}`;
+    if (isolated) path += `h${i === values.length - 1 ? '-' : ''}${Math.max(1, step / 4).toFixed(1)}`;
+    drawing = true;
+  });
+  return path;
+};
+
+const PALETTE = ['#3182ce', '#38a169', '#dd6b20', '#805ad5', '#d53f8c', '#319795', '#d69e2e', '#718096'];
+
+/**
+ * Stable color per category (by name), so a line keeps its color as ranks change
+ */
+export const colorOf = (category: string): string => {
+  const hash = [...category].reduce((h, ch) => (h * 31 + ch.charCodeAt(0)) >>> 0, 7);
+  return PALETTE[hash % PALETTE.length] ?? '#718096';
+};
@@ -0,0 +1,181 @@
+/**
+ * Reusable live WebSocket connection hook
+ *
+ * Demonstrates:
+ * - Auto-reconnect with exponential backoff and jitter
+ * - Application-level heartbeat to detect dead connections
+ * - Immediate reconnect when the tab wakes up or the network returns
+ * - Runtime-checked messages via the shared codec
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { backoffDelay, type BackoffOptions } from '../shared/backoff';
+import { decodeServerMessage, encodeMessage, withProtocol, CLOSE_UNSUPPORTED_PROTOCOL } from '../shared/codec';
+import { formatIssues } from '../shared/validation';
+import type { ClientMessage, ServerMessage } from '../shared/types';
+
+// 'closed' is final: the server refused us and retrying won't help
+export type ConnectionStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+type Send = (msg: ClientMessage) => void;
+
+export type LiveSocketOptions = {
+  onMessage: (msg: ServerMessage, send: Send) => void;
+  onOpen?: (send: Send) => void;
+  /** How often to ping the server (ms) */
+  heartbeatMs?: number;
+  /** Give up on a connection that has been silent this long (ms) */
+  timeoutMs?: number;
+  backoff?: BackoffOptions;
+};
+
+export type LiveSocket = {
+  status: ConnectionStatus;
+  /** When the next reconnect attempt is due (epoch ms), while reconnecting */
+  retryAt: number | undefined;
+  attempt: number;
+  /** Last frame that failed to decode, if any */
+  decodeError: string | undefined;
+  send: Send;
+  /** Reconnect now instead of waiting for the backoff timer */
+  reconnect: () => void;
+};
+
+export function useLiveSocket(url: string, options: LiveSocketOptions): LiveSocket {
+  const [status, setStatus] = useState<ConnectionStatus>('connecting');
+  const [retryAt, setRetryAt] = useState<number | undefined>(undefined);
+  const [attempt, setAttempt] = useState(0);
+  const [generation, setGeneration] = useState(0);  // bump to force a reconnect
+  const [decodeError, setDecodeError] = useState<string | undefined>(undefined);
+
+  // Latest callbacks without reconnecting when they change
+  const handlers = useRef(options);
+  handlers.current = options;
+  const socket = useRef<WebSocket | null>(null);
+  const attempts = useRef(0);
+
+  const send = useCallback((msg: ClientMessage) => {
+    const ws = socket.current;
+    const data = encodeMessage(msg);
+    if (data !== undefined && ws?.readyState === WebSocket.OPEN) ws.send(data);
+  }, []);
+
+  const reconnect = useCallback(() => setGeneration(g => g + 1), []);
+
+  useEffect(() => {
+    const { heartbeatMs = 15_000, timeoutMs = 35_000, backoff } = handlers.current;
+    let disposed = false;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let lastHeard = Date.now();
+    let refused = false;
+
+    const scheduleRetry = () => {
+      const delay = backoffDelay(attempts.current++, backoff);
+      setAttempt(attempts.current);
+      setRetryAt(Date.now() + delay);
+      setStatus('reconnecting');
+      retryTimer = setTimeout(connect, delay);
+    };
+
+    function connect() {
+      if (disposed) return;
+      console.log('🔌 Connecting to WebSocket server...');
+      setStatus(attempts.current === 0 ? 'connecting' : 'reconnecting');
+      setRetryAt(undefined);
+      const ws = new WebSocket(withProtocol(url));
+      socket.current = ws;
+      let heartbeat: ReturnType<typeof setInterval> | undefined;  // this socket's own
+
+      ws.onopen = () => {
+        attempts.current = 0;
+        setAttempt(0);
+        setStatus('open');
+        lastHeard = Date.now();
+        console.log('✅ Connected to live data stream');
+        handlers.current.onOpen?.(send);
+
+        heartbeat = setInterval(() => {
+          if (Date.now() - lastHeard > timeoutMs) {
+            console.warn('💤 Connection silent for too long, reconnecting');
+            ws.close();
+            return;
+          }
+          send({ type: 'ping', t: Date.now() });
+        }, heartbeatMs);
+      };
+
+      ws.onmessage = (ev) => {
+        if (socket.current !== ws) return;
+        lastHeard = Date.now();
+        const decoded = decodeServerMessage(String(ev.data));
+        if (!decoded.ok) {
+          const message = formatIssues(decoded.issues, 'message');
+          console.warn('⚠️ Dropped malformed message:', message);
+          setDecodeError(message);
+          return;
+        }
+        if (decoded.message.type === 'pong') return;  // heartbeat only
+        if (decoded.message.type === 'hello') setDecodeError(undefined);
+        handlers.current.onMessage(decoded.message, send);
+      };
+
+      ws.onerror = (err) => {
+        console.error('WebSocket error:', err);
+      };
+
+      ws.onclose = (ev) => {
+        clearInterval(heartbeat);
+        // Replaced by a newer socket (see `wake`), which reconnects on its own
+        if (socket.current !== ws) return;
+        socket.current = null;
+        if (disposed) return;
+        if (ev.code === CLOSE_UNSUPPORTED_PROTOCOL) {
+          console.error(`🚫 Server refused connection: ${ev.reason}`);
+          refused = true;
+          setStatus('closed');
+          return;
+        }
+        console.log('❌ Disconnected from server');
+        scheduleRetry();
+      };
+    }
+
+    // A laptop waking up or a network coming back should not wait out the backoff
+    const wake = () => {
+      if (!refused && document.visibilityState === 'visible' && socket.current?.readyState !== WebSocket.OPEN) {
+        clearTimeout(retryTimer);
+        const stale = socket.current;
+        connect();  // becomes `socket.current` first, so the old socket's close is ignored
+        stale?.close();
+      }
+    };
+    document.addEventListener('visibilitychange', wake);
+    window.addEventListener('online', wake);
+
+    connect();
+
+    return () => {
+      disposed = true;
+      clearTimeout(retryTimer);
+      document.removeEventListener('visibilitychange', wake);
+      window.removeEventListener('online', wake);
+      console.log('🔌 Closing WebSocket connection');
+      socket.current?.close();
+      socket.current = null;
+    };
+  }, [url, generation, send]);
+
+  return { status, retryAt, attempt, decodeError, send, reconnect };
+}
+
+/**
+ * Current time, re-rendering every `intervalMs` (for countdowns and staleness)
+ */
+export function useNow(intervalMs = 1000): number {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+  return now;
+}
@@ -1,135 +1,871 @@
 #!/usr/bin/env tsx
 
 /**
- * WebSocket Server for Live Dashboard
+ * WebSocket + HTTP Server for Live Dashboard
  *
  * Demonstrates:
  * - FP stream connected to real-time delivery
+ * - One port for WebSocket, JSON endpoints and Server-Sent Events
  * - Arrow functions throughout
  * - Basic error handling for production readiness
  */
 
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
 import { WebSocketServer, WebSocket } from 'ws';
-import type { Order } from './shared/types';
-import { fetchOrderPages } from './shared/data';
+import { openOrderSource, deadLetterFile, readRateTable } from './shared/sources';
+import { loadConfig, configUsage } from './shared/config';
+import type { IntakeStats, WebSocketMessage, ClientMessage, ServerMessage, CategoryEntry, RankedSnapshot, RevenueTotals, SnapshotRecord, SourceStatus, CircuitState } from './shared/types';
+import { streamNetRevenueBySource, createLedger, categoryLedger, combineTotals, topNByNet, type LedgerState, type SourceFold } from './shared/ledger';
+import { mergeSources } from './shared/merge';
+import { retryPages, createCircuitBreaker, DEFAULT_RETRY, type RetryEvent, type RetryPolicy } from './shared/retry';
+import { backoffDelay } from './shared/backoff';
+import { delay, isAbortError } from './shared/abort';
+import { categoryRevenue, exactRanker } from './shared/aggregation';
+import { spaceSaving } from './shared/sketches';
+import { createWindowedTopN, daily, last7Days, HOUR, type WindowState } from './shared/windows';
+import { logDeadLetter, emptyIntakeStats, type DeadLetterSink } from './shared/validation';
+import { REPORTING_CURRENCY, hasRate, useRateTable } from './shared/money';
+import { readCheckpoint, createCheckpointer, type Checkpoint } from './shared/checkpoint';
+import { createSubscriptionRegistry, normalizeParams, MAX_LIMIT, type SubscriptionState } from './shared/subscriptions';
+import { createFoldPool, metricFolder } from './shared/parallel';
+import { diffSnapshot } from './shared/deltas';
+import { encodeMessage, decodeClientMessage, negotiateProtocol, CLOSE_UNSUPPORTED_PROTOCOL, CLOSE_TOO_SLOW } from './shared/codec';
+import { formatIssues } from './shared/validation';
+import { openHistory, type HistoryRange } from './shared/history';
+import { createCategoryBreakdown, type BreakdownState } from './shared/drilldown';
+import { createCustomerAnalytics, type CustomerState } from './shared/customers';
+import { createOutbox, type Outbox, type Outgoing } from './shared/outbox';
+
+// --- Configuration ----------------------------------------------------------
+// Flags, environment and an optional JSON file (see `--help`), so several
+// instances can run side by side with their own port, feeds and state files
+if (process.argv.includes('--help')) {
+  console.log(configUsage());
+  process.exit(0);
+}
+const loaded = await loadConfig();
+if (!loaded.ok) {
+  console.error(`❌ Invalid configuration:\n${loaded.issues.map(i => `  - ${i.path} ${i.message}`).join('\n')}\n\nRun with --help to list every setting.`);
+  process.exit(1);
+}
+const CONFIG = loaded.config;
 
 console.log('🚀 Starting WebSocket server for live dashboard...\n');
+console.log(`⚙️  Port ${CONFIG.port}, top ${CONFIG.topN}, cycle mode ${CONFIG.cycle}${loaded.file ? ` (config file ${loaded.file})` : ''}\n`);
+
+// Exchange rates into the reporting currency: the built-in static table,
+// or `--rate-table`. Loaded before anything is folded or a worker started.
+if (CONFIG.rateTable !== undefined) {
+  try {
+    const table = await readRateTable(CONFIG.rateTable);
+    if (!hasRate(REPORTING_CURRENCY, table)) {
+      throw new Error(`${CONFIG.rateTable}: no rate for the reporting currency ${REPORTING_CURRENCY}`);
+    }
+    useRateTable(table);
+    console.log(`💱 Rates from ${CONFIG.rateTable} (${Object.keys(table.rates).length} currencies, base ${table.base})\n`);
+  } catch (err) {
+    console.error(`❌ Could not load the rate table: ${(err as Error).message}`);
+    process.exit(1);
+  }
+}
+
+// --- Order sources ----------------------------------------------------------
+// `--sources eu=data/eu.ndjson,us=data/us.csv` merges several feeds as their
+// pages arrive; the default is a single feed of the mock pages
+const SOURCES = CONFIG.sources;
+
+// A failed page fetch is retried on its own, with backoff, before the feed fails
+const RETRY_POLICY: RetryPolicy = { ...DEFAULT_RETRY, maxAttempts: CONFIG.retryMaxAttempts };
+
+// Rejected orders are logged, and kept in full when `--dead-letter-file` is set
+const deadLetters = CONFIG.deadLetterFile === undefined ? undefined : deadLetterFile(CONFIG.deadLetterFile);
+const deadLetter: DeadLetterSink = rejection => {
+  logDeadLetter(rejection);
+  deadLetters?.(rejection);
+};
+
+// --- Checkpointed stream state ----------------------------------------------
+type SavedSource = { cursor: number; ledger: LedgerState; intake: IntakeStats };
+
+type ServerState = {
+  sources: Record<string, SavedSource>;  // one ledger and cursor per feed
+  windows: WindowState;
+  breakdown: BreakdownState;
+  customers?: CustomerState;  // absent from checkpoints that predate it
+  subscriptions?: SubscriptionState;
+};
+
+const checkpointer = createCheckpointer<ServerState>({
+  path: CONFIG.checkpointFile,
+  everyPages: CONFIG.checkpointEveryPages,
+  everyMs: CONFIG.checkpointEveryMs,
+});
+
+// Orders are reconciled for `settleAfterMs` of event time, then forgotten,
+// so the folds (and the checkpoint) stay bounded
+const SETTLE = { settleAfterMs: CONFIG.settleAfterMs };
+
+// Everything a cycle has folded so far: per-source ledgers and cursors, and
+// the combined folds that all sources feed
+const startCycle = (checkpoint?: Checkpoint<ServerState>) => {
+  const folds = new Map(SOURCES.map(({ name }): [string, SourceFold<string>] => {
+    const saved = checkpoint?.state.sources[name];
+    return [name, {
+      ledger: createLedger(categoryLedger, saved?.ledger, SETTLE),
+      intake: saved?.intake ?? emptyIntakeStats(),
+      cursor: saved?.cursor ?? 0,
+    }];
+  }));
+  return {
+    folds,
+    cursor: checkpoint?.cursor ?? 0,  // pages folded, over all sources
+    intake: folds.values().reduce(
+      (acc, { intake }) => ({ accepted: acc.accepted + intake.accepted, rejected: acc.rejected + intake.rejected }),
+      emptyIntakeStats(),
+    ),
+    // "Today" and "this week" by event time, fed from the same pages
+    windows: createWindowedTopN(categoryRevenue, [daily, last7Days], CONFIG.topN, {
+      allowedLateness: HOUR,
+      state: checkpoint?.state.windows,
+    }),
+    // Top SKUs / customers / AOV per category, for drill-downs
+    breakdown: createCategoryBreakdown(checkpoint?.state.breakdown, SETTLE),
+    // Repeat purchases, cohorts and RFM segments
+    customers: createCustomerAnalytics(checkpoint?.state.customers, SETTLE),
+  };
+};
+
+const combinedTotals = () => combineTotals(cycle.folds.values().map(f => f.ledger));
+
+const restored = await readCheckpoint<ServerState>(CONFIG.checkpointFile);
+// Checkpoints from before per-source state, or from before orders settled
+// (when the per-order folds were plain arrays), keep their sequence, not their totals
+const resumable = restored?.state.sources === undefined || Array.isArray(restored.state.breakdown) ? undefined : restored;
+let cycle = startCycle(resumable);
+let sequence = restored?.sequence ?? 0;
+if (resumable) {
+  console.log(`♻️  Resuming from checkpoint: ${resumable.cursor} pages folded, sequence ${resumable.sequence}\n`);
+} else if (restored) {
+  console.log(`♻️  Checkpoint predates the current state layout; starting a new cycle at sequence ${restored.sequence}\n`);
+}
+
+// --- Snapshot history ---------------------------------------------------------
+// Every full snapshot is appended here for replay; entries written after the
+// checkpoint we resumed from will be produced again, so they are discarded.
+const history = await openHistory<SnapshotRecord>({
+  path: CONFIG.historyFile,
+  maxEntries: CONFIG.historyMaxEntries,
+});
+await history.discardAfter(sequence);
+
+const historyMessage = (range: HistoryRange, requestId?: string): ServerMessage => ({
+  type: 'history',
+  requestId,
+  ...history.bounds(),
+  entries: history.range(range),
+});
+
+// --- Full snapshot + sequenced deltas ---------------------------------------
+type FullSnapshot = Extract<WebSocketMessage, { type: 'top-categories' }>;
+
+const toEntries = (snapshot: RankedSnapshot<string, RevenueTotals>): CategoryEntry[] =>
+  snapshot.map(([category, { net, gross, refunded }]) => ({ category, sum: net, gross, refunded }));
+
+// Latest full snapshot: sent on connect and on resync, base of the next delta.
+// Before the first page it is empty, so early clients still get a base `seq`.
+let latest: FullSnapshot = {
+  type: 'top-categories',
+  at: restored?.savedAt ?? new Date().toISOString(),
+  seq: sequence,
+  pageIndex: cycle.cursor - 1,
+  items: toEntries(topNByNet(combinedTotals(), CONFIG.topN)),
+  currency: REPORTING_CURRENCY,
+  intake: cycle.intake,
+};
+
+// --- Backpressure -------------------------------------------------------------
+const outboxOptions = {
+  policy: CONFIG.backpressurePolicy,
+  highWaterMark: CONFIG.outboxHighWaterBytes,
+  maxBytes: CONFIG.outboxMaxBytes,
+  closeCode: CLOSE_TOO_SLOW,
+};
+
+// --- WebSocket server --------------------------------------------------------
+type Client = { id: number; outbox: Outbox };
+
+// Plain HTTP requests are routed below; upgrades go to the WebSocket server
+const httpServer = createServer((req, res) => handleHttp(req, res));
+const wss = new WebSocketServer({ server: httpServer });
+const clients = new Map<WebSocket, Client>();
+// Subscribed leaderboards carry on from the checkpoint, so a client that
+// comes back after a restart sees the whole cycle again. With `workers`,
+// their pages are grouped on a fold pool; a page the pool fails is grouped here.
+const foldPool = CONFIG.workers > 0 ? createFoldPool(CONFIG.workers) : undefined;
+let foldPoolWarned = false;
+const subscriptions = createSubscriptionRegistry<WebSocket>({
+  state: resumable?.state.subscriptions,
+  nextPage: cycle.cursor,
+  settleAfterMs: CONFIG.settleAfterMs,
+  foldMetrics: foldPool && metricFolder(foldPool, err => {
+    if (!foldPoolWarned) console.warn(`⚠️ Fold pool failed, folding subscriptions on the main thread: ${err.message}`);
+    foldPoolWarned = true;
+  }),
+});
+const drilldowns = new Map<WebSocket, { category: string; limit: number }>();  // one open detail view per client
+let nextClientId = 1;
+
+const removeClient = (ws: WebSocket) => {
+  clients.get(ws)?.outbox.clear();
+  clients.delete(ws);
+  subscriptions.drop(ws);
+  drilldowns.delete(ws);
+};
+
+const addClient = (ws: WebSocket): Client => {
+  const id = nextClientId++;
+  const outbox = createOutbox({
+    bufferedAmount: () => ws.bufferedAmount,
+    send: (data, sent) => {
+      if (ws.readyState === ws.OPEN) ws.send(data, sent);
+    },
+    close: (code, reason) => {
+      console.log(`🐌 Disconnecting client #${id}: ${reason}`);
+      removeClient(ws);
+      ws.close(code, reason);
+    },
+  }, outboxOptions);
+  const client = { id, outbox };
+  clients.set(ws, client);
+  return client;
+};
+
+// Every send goes through the client's outbox; `key` marks superseding updates
+const enqueue = (ws: WebSocket, message: Outgoing) => clients.get(ws)?.outbox.enqueue(message);
+
+const send = (ws: WebSocket, msg: ServerMessage, key?: string) => {
+  const data = encodeMessage(msg);
+  if (data !== undefined) enqueue(ws, { data, key });
+};
+
+// `data` is undefined when the message could not be encoded (already logged)
+const broadcast = ({ data, ...message }: Omit<Outgoing, 'data'> & { data: string | undefined }) => {
+  if (data === undefined) return;
+  for (const { outbox } of clients.values()) outbox.enqueue({ data, ...message });
+};
+
+// Only the per-page broadcast takes the windows closed since the last page;
+// requests in between see the current windows
+const windowsMessage = (at: string, windows = cycle.windows.current()): ServerMessage => ({
+  type: 'top-windows',
+  at,
+  pageIndex: cycle.cursor - 1,
+  watermark: cycle.windows.watermark(),
+  late: cycle.windows.late(),
+  currency: REPORTING_CURRENCY,
+  windows: windows.map(({ top, ...w }) => ({
+    ...w,
+    items: top.map(([category, sum]) => ({ category, sum })),
+  })),
+});
+
+// Top customers, RFM segments and monthly cohorts over every feed. A snapshot
+// sorts every customer, so it is only built when someone is listening, and
+// at most once per interval however fast pages arrive.
+const TOP_CUSTOMERS = 10;
+const CUSTOMERS_INTERVAL_MS = 1000;
+
+const customersMessage = (at: string): ServerMessage => ({
+  type: 'customers',
+  at,
+  pageIndex: cycle.cursor - 1,
+  currency: REPORTING_CURRENCY,
+  analytics: cycle.customers.snapshot({ limit: TOP_CUSTOMERS }),
+});
+
+let customersTimer: ReturnType<typeof setTimeout> | undefined;
 
-const wss = new WebSocketServer({ port: 8080 });
-const clients = new Set<WebSocket>();
+// Trailing: the message built when the timer fires covers every page before it
+const publishCustomers = () => {
+  if (clients.size === 0 || customersTimer) return;
+  customersTimer = setTimeout(() => {
+    customersTimer = undefined;
+    if (clients.size === 0) return;
+    broadcast({ key: 'customers', data: encodeMessage(customersMessage(new Date().toISOString())) });
+  }, CUSTOMERS_INTERVAL_MS);
+};
+
+// Set while the stream is down, so clients connecting meanwhile hear about it too
+let streamError: Extract<ServerMessage, { type: 'error' }> | undefined;
 
-wss.on('connection', (ws) => {
-  clients.add(ws);
-  ws.on('close', () => clients.delete(ws));
-  ws.on('error', () => clients.delete(ws)); // Basic cleanup
-  ws.send(JSON.stringify({ type: 'hello', msg: 'Connected. Waiting for updates…' }));
-  console.log(`👋 Client connected (${clients.size} total)`);
+// --- Source status -------------------------------------------------------------
+const sourceStatuses = new Map(SOURCES.map(({ name }) => [name, { source: name, state: 'waiting', pages: 0, circuit: 'closed' } as SourceStatus]));
+
+// Each feed's status next to its own top N; the main leaderboard is all of them
+const sourcesMessage = (at: string): ServerMessage => ({
+  type: 'sources',
+  at,
+  currency: REPORTING_CURRENCY,
+  sources: sourceStatuses.values().map(status => {
+    const fold = cycle.folds.get(status.source);
+    return {
+      ...status,
+      pages: fold?.cursor ?? status.pages,  // this cycle's, across restarts and polls
+      intake: fold?.intake ?? emptyIntakeStats(),
+      items: toEntries(topNByNet(fold?.ledger.totals() ?? new Map(), CONFIG.topN)),
+    };
+  }).toArray(),
 });
 
-const broadcast = (data: unknown) => {
-  const json = JSON.stringify(data);
-  for (const ws of clients) {
-    if (ws.readyState === ws.OPEN) {
-      try { ws.send(json); } catch { clients.delete(ws); } // Remove failed clients
+const publishSources = (at = new Date().toISOString()) => {
+  const msg = sourcesMessage(at);
+  broadcast({ key: 'sources', data: encodeMessage(msg) });
+  publishEvent(msg, 'sources');
+};
+
+const patchSourceStatus = (source: string, change: Partial<SourceStatus>) => {
+  const prev = sourceStatuses.get(source);
+  if (!prev) return;
+  sourceStatuses.set(source, { ...prev, ...change });
+  publishSources();
+};
+
+// Pages are published with their snapshot; state changes right away
+const updateSourceStatus = (status: SourceStatus) => {
+  const prev = sourceStatuses.get(status.source);
+  // A feed backing off after a failed fetch is retrying, not stalled
+  if (prev?.state === 'retrying' && status.state === 'stalled') return;
+  const changed = prev?.state !== status.state;
+  sourceStatuses.set(status.source, { ...status, circuit: prev?.circuit });
+  if (!changed || status.state === 'streaming') return;
+  if (status.state === 'failed') console.error(`❌ Source ${status.source} failed: ${status.error}`);
+  else if (status.state === 'stalled') console.warn(`🐢 Source ${status.source} stalled (no page for ${CONFIG.stallMs}ms)`);
+  // Following, a poll that found nothing new is not news
+  else if (status.state === 'done' && (CONFIG.cycle !== 'follow' || status.pages > 0)) {
+    console.log(`🏁 Source ${status.source} done after ${status.pages} pages`);
+  }
+  publishSources();
+};
+
+// --- Retries and circuit breakers ----------------------------------------------
+// Breakers outlive stream restarts, so a broken feed stays open across them
+const circuitIcons: Record<CircuitState, string> = { closed: '🟢', open: '🔴', 'half-open': '🟡' };
+
+const breakers = new Map(SOURCES.map(({ name }) => [name, createCircuitBreaker({
+  failureThreshold: CONFIG.breakerFailureThreshold,
+  resetAfterMs: CONFIG.breakerResetMs,
+  onStateChange: circuit => {
+    console.log(`${circuitIcons[circuit]} Circuit of source ${name} is ${circuit}`);
+    patchSourceStatus(name, { circuit });
+  },
+})] as const));
+
+const reportRetry = (source: string) => ({ cursor, attempt, delayMs, error }: RetryEvent) => {
+  // An open circuit can hold the next attempt back beyond the backoff
+  const waitMs = Math.max(delayMs, breakers.get(source)?.waitMs() ?? 0);
+  console.warn(`🔁 Source ${source} page ${cursor + 1} failed (attempt ${attempt}/${RETRY_POLICY.maxAttempts}): ${error.message}; retrying in ${waitMs}ms`);
+  patchSourceStatus(source, {
+    state: 'retrying',
+    attempt,
+    retryAt: new Date(Date.now() + waitMs).toISOString(),
+    error: error.message,
+  });
+};
+
+// --- Subscriptions -----------------------------------------------------------
+const leaderboardMessage = (key: string, at: string): ServerMessage | undefined => {
+  const view = subscriptions.view(key);
+  return view && {
+    type: 'leaderboard',
+    subscription: key,
+    at,
+    pageIndex: cycle.cursor - 1,
+    fromPageIndex: view.fromPage,
+    ...(view.window ? { window: view.window } : {}),
+    currency: REPORTING_CURRENCY,
+    items: view.top,
+  };
+};
+
+// One message per aggregation, sent to each of its subscribers
+const publishLeaderboards = (at: string) => {
+  for (const { key, subscribers } of subscriptions.entries()) {
+    const msg = leaderboardMessage(key, at);
+    if (!msg) continue;
+    const data = encodeMessage(msg);
+    if (data === undefined) continue;
+    subscribers.forEach(ws => enqueue(ws, { data, key: `leaderboard:${key}` }));
+  }
+};
+
+// --- Drill-downs -------------------------------------------------------------
+const detailMessage = (category: string, limit: number, at: string): ServerMessage => ({
+  type: 'category-detail',
+  at,
+  pageIndex: cycle.cursor - 1,
+  currency: REPORTING_CURRENCY,
+  detail: cycle.breakdown.detail(category, limit),
+});
+
+// Clients looking at the same category with the same limit share one encoding
+const publishDrilldowns = (at: string) => {
+  const encoded = new Map<string, string>();
+  for (const [ws, { category, limit }] of drilldowns) {
+    const key = `${category}:${limit}`;
+    const data = encoded.get(key) ?? encodeMessage(detailMessage(category, limit, at));
+    if (data === undefined) continue;
+    encoded.set(key, data);
+    enqueue(ws, { data, key: 'category-detail' });
+  }
+};
+
+const handleClientMessage = (ws: WebSocket, msg: ClientMessage) => {
+  const at = new Date().toISOString();
+  if (msg.type === 'ping') {
+    send(ws, { type: 'pong', t: msg.t });
+  } else if (msg.type === 'resync') {
+    console.log(`🔁 Resync requested (client had seq ${msg.lastSeq ?? '?'}, latest ${latest.seq})`);
+    send(ws, latest);
+  } else if (msg.type === 'history-request') {
+    const { type, requestId, ...range } = msg;
+    send(ws, historyMessage(range, requestId));
+  } else if (msg.type === 'drilldown') {
+    const limit = msg.limit ?? 5;
+    if (msg.category === null) {
+      drilldowns.delete(ws);
+    } else if (limit < 1 || limit > MAX_LIMIT) {
+      send(ws, { type: 'error', code: 'bad-request', message: `limit must be between 1 and ${MAX_LIMIT}`, at });
+    } else {
+      drilldowns.set(ws, { category: msg.category, limit });
+      send(ws, detailMessage(msg.category, limit, at));
+    }
+  } else if (msg.type === 'subscribe') {
+    const result = normalizeParams(msg.params);
+    if (!result.ok) {
+      send(ws, { type: 'error', code: 'bad-request', message: result.message, at, requestId: msg.requestId });
+      return;
+    }
+    const subscription = subscriptions.subscribe(ws, result.params);
+    send(ws, { type: 'subscribed', requestId: msg.requestId, subscription, params: result.params });
+    const initial = leaderboardMessage(subscription, at);
+    if (initial) send(ws, initial);
+    console.log(`🔔 Client subscribed to ${subscription} (${subscriptions.entries().length} aggregations)`);
+  } else if (subscriptions.unsubscribe(ws, msg.subscription)) {
+    send(ws, { type: 'unsubscribed', subscription: msg.subscription });
+  } else {
+    send(ws, { type: 'error', code: 'bad-request', message: `Not subscribed to ${msg.subscription}`, at });
+  }
+};
+
+// --- Heartbeat ---------------------------------------------------------------
+// Protocol-level pings find clients that vanished without a close frame
+// (sleeping laptops, dropped Wi-Fi); browsers answer them automatically.
+const alive = new WeakSet<WebSocket>();
+
+const heartbeat = setInterval(() => {
+  for (const [ws, { id, outbox }] of clients) {
+    const { queued, lagMs, queuedBytes, dropped, conflated } = outbox.metrics();
+    if (queued > 0) {
+      console.log(`📉 Client #${id} lagging ${lagMs}ms (${queued} queued, ${queuedBytes} bytes; ${conflated} conflated, ${dropped} dropped)`);
+    }
+    if (!alive.has(ws)) {
+      console.log('💤 Terminating unresponsive client');
+      removeClient(ws);
+      ws.terminate();
+      continue;
     }
+    alive.delete(ws);
+    ws.ping();
   }
+  // Comments keep proxies from closing idle event streams
+  for (const outbox of eventStreams) outbox.enqueue({ data: ': ping\n\n', key: 'heartbeat' });
+}, CONFIG.heartbeatMs);
+
+wss.on('close', () => clearInterval(heartbeat));
+
+wss.on('connection', (ws, req) => {
+  const protocol = negotiateProtocol(new URL(req.url ?? '/', 'http://localhost').searchParams.get('protocol'));
+  if (!protocol.ok) {
+    const refusal = encodeMessage({ type: 'error', code: 'unsupported-protocol', message: protocol.message, at: new Date().toISOString() });
+    if (refusal !== undefined) ws.send(refusal);
+    ws.close(CLOSE_UNSUPPORTED_PROTOCOL, 'unsupported protocol');
+    console.log(`🚫 Refused client: ${protocol.message}`);
+    return;
+  }
+
+  const { id } = addClient(ws);
+  alive.add(ws);
+  ws.on('pong', () => alive.add(ws));
+  ws.on('close', () => removeClient(ws));
+  ws.on('error', () => removeClient(ws)); // Basic cleanup
+  ws.on('message', (data) => {
+    const decoded = decodeClientMessage(data.toString());
+    if (decoded.ok) {
+      handleClientMessage(ws, decoded.message);
+    } else {
+      send(ws, { type: 'error', code: 'bad-request', message: `Bad request: ${formatIssues(decoded.issues, 'message')}`, at: new Date().toISOString() });
+    }
+  });
+  send(ws, { type: 'hello', msg: 'Connected. Waiting for updates…', protocol: protocol.version });
+  send(ws, latest);  // initial state; deltas follow
+  send(ws, sourcesMessage(latest.at), 'sources');
+  send(ws, windowsMessage(latest.at), 'top-windows');
+  send(ws, customersMessage(latest.at), 'customers');
+  if (streamError) send(ws, streamError);
+  console.log(`👋 Client #${id} connected (${clients.size} total)`);
+});
+
+// --- HTTP API + Server-Sent Events -----------------------------------------
+// For tools and proxies that can't speak WebSocket: `curl` the current state,
+// or follow the same `top-categories` updates as an event stream.
+const eventStreams = new Set<Outbox>();
+
+const CORS = { 'Access-Control-Allow-Origin': '*' };
+
+const sendJsonResponse = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...CORS });
+  res.end(`${JSON.stringify(body, null, 2)}\n`);
+};
+
+// Full snapshots carry their sequence as the event id, so a reconnect can resume
+const sendEvent = (outboxes: Iterable<Outbox>, msg: ServerMessage, key?: string) => {
+  const data = encodeMessage(msg);
+  if (data === undefined) return;
+  const id = msg.type === 'top-categories' ? `id: ${msg.seq}\n` : '';
+  for (const outbox of outboxes) outbox.enqueue({ data: `event: ${msg.type}\n${id}data: ${data}\n\n`, key });
 };
 
-// --- FP Helper Functions (from Step 4) --------------------------------------
-const topNFromMap = <K>(map: Map<K, number>, n: number): Array<readonly [K, number]> =>
-  map.entries()
+const publishEvent = (msg: ServerMessage, key?: string) => sendEvent(eventStreams, msg, key);
+
+// Every category folded so far, not just the top N
+const runningTotals = () => {
+  const categories = combinedTotals().entries()
+    .map(([category, totals]) => ({ category, ...totals }))
     .toArray()
-    .toSorted((a, b) => b[1] - a[1])
-    .values()                            // Array → Iterator
-    .take(n)                             // Iterator Helper method
-    .toArray();                          // final materialization
-
-const processPageToSales = (page: Order[]): Map<string, number> =>
-  page
-    .filter(o => o.status === 'paid')
-    .flatMap(o => o.items.map(it => ({
-      category: it.category,
-      total: it.qty * it.unitPrice
-    })))
-    .reduce(
-      (acc, sale) => acc.set(
-        sale.category,
-        (acc.get(sale.category) ?? 0) + sale.total
-      ),
-      new Map<string, number>()
-    );
+    .toSorted((a, b) => b.net - a.net);
+  return {
+    at: new Date().toISOString(),
+    seq: latest.seq,
+    pageIndex: cycle.cursor - 1,
+    currency: REPORTING_CURRENCY,
+    orders: cycle.folds.values().reduce((n, { ledger }) => n + ledger.orders(), 0),
+    intake: cycle.intake,
+    overall: categories.reduce(
+      (sum, { gross, refunded, net }) => ({ gross: sum.gross + gross, refunded: sum.refunded + refunded, net: sum.net + net }),
+      { gross: 0, refunded: 0, net: 0 },
+    ),
+    categories,
+  };
+};
 
-const mergeCategoryTotals = (
-  a: Map<string, number>,
-  b: Map<string, number>
-): Map<string, number> =>
-  b.entries().reduce(
-    (result, [category, total]) =>
-      result.set(category, (result.get(category) ?? 0) + total),
-    new Map(a)
-  );
-
-const streamTopCategories = async (
-  pages: AsyncIterable<Order[]>,
-  limit: number,
-  onUpdate: (snapshot: ReadonlyArray<readonly [string, number]>, pageIndex: number) => void,
-): Promise<Map<string, number>> => {
-  let runningTotals = new Map<string, number>();
-  let pageIndex = 0;
-
-  for await (const page of pages) {
-    const pageTotals = processPageToSales(page);
-    runningTotals = mergeCategoryTotals(runningTotals, pageTotals);
-
-    onUpdate(topNFromMap(runningTotals, limit), pageIndex++);
+const openEventStream = (req: IncomingMessage, res: ServerResponse) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    ...CORS,
+  });
+  // Same backpressure as WebSocket clients: a full snapshot supersedes the last
+  const outbox = createOutbox({
+    bufferedAmount: () => res.writableLength,
+    send: (data, sent) => { res.write(data, err => sent(err ?? undefined)); },
+    close: (code, reason) => {
+      eventStreams.delete(outbox);
+      res.end(`: closing (${code} ${reason})\n\n`);
+    },
+  }, outboxOptions);
+  eventStreams.add(outbox);
+  req.on('close', () => {
+    eventStreams.delete(outbox);
+    outbox.clear();
+  });
+
+  outbox.enqueue({ data: 'retry: 5000\n\n' });
+  sendEvent([outbox], latest);
+  sendEvent([outbox], sourcesMessage(latest.at), 'sources');
+  if (streamError) sendEvent([outbox], streamError);
+  console.log(`📡 Event stream opened (${eventStreams.size} total)`);
+};
+
+const routes: Record<string, (req: IncomingMessage, res: ServerResponse) => void> = {
+  '/api/leaderboard': (_req, res) => sendJsonResponse(res, 200, latest),
+  '/api/totals': (_req, res) => sendJsonResponse(res, 200, runningTotals()),
+  '/api/windows': (_req, res) => sendJsonResponse(res, 200, windowsMessage(new Date().toISOString())),
+  '/api/sources': (_req, res) => sendJsonResponse(res, 200, sourcesMessage(new Date().toISOString())),
+  '/api/customers': (_req, res) => sendJsonResponse(res, 200, customersMessage(new Date().toISOString())),
+  '/api/clients': (_req, res) => sendJsonResponse(res, 200, {
+    websocket: clients.values().map(({ id, outbox }) => ({ id, ...outbox.metrics() })).toArray(),
+    events: eventStreams.values().map(outbox => outbox.metrics()).toArray(),
+  }),
+  '/api/drilldown': (req, res) => {
+    const query = new URL(req.url ?? '/', 'http://localhost').searchParams;
+    const category = query.get('category');
+    const limit = Number(query.get('limit') ?? 5);
+    if (!category) {
+      sendJsonResponse(res, 400, { error: 'category is required' });
+      return;
+    }
+    if (!Number.isSafeInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      sendJsonResponse(res, 400, { error: `limit must be an integer between 1 and ${MAX_LIMIT}` });
+      return;
+    }
+    sendJsonResponse(res, 200, detailMessage(category, limit, new Date().toISOString()));
+  },
+  '/api/history': (req, res) => {
+    const query = new URL(req.url ?? '/', 'http://localhost').searchParams;
+    const number = (name: string) => query.has(name) ? Number(query.get(name)) : undefined;
+    const invalid = ['fromSeq', 'toSeq', 'limit'].filter(name => query.has(name) && !Number.isSafeInteger(number(name)));
+    if (invalid.length > 0) {
+      sendJsonResponse(res, 400, { error: `${invalid.join(', ')} must be ${invalid.length === 1 ? 'an integer' : 'integers'}` });
+      return;
+    }
+    sendJsonResponse(res, 200, historyMessage({
+      fromSeq: number('fromSeq'),
+      toSeq: number('toSeq'),
+      from: query.get('from') ?? undefined,
+      to: query.get('to') ?? undefined,
+      limit: number('limit'),
+    }));
+  },
+  '/api/events': openEventStream,
+};
+
+const handleHttp = (req: IncomingMessage, res: ServerResponse) => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  const route = routes[pathname];
+  if (!route) {
+    sendJsonResponse(res, 404, { error: `No route for ${pathname}`, routes: Object.keys(routes) });
+  } else if (req.method !== 'GET' && req.method !== 'HEAD') {
+    res.setHeader('Allow', 'GET, HEAD');
+    sendJsonResponse(res, 405, { error: `${req.method} not allowed` });
+  } else {
+    route(req, res);
   }
+};
+
+const toCheckpoint = () => ({
+  cursor: cycle.cursor,
+  sequence,
+  state: {
+    sources: Object.fromEntries(cycle.folds.entries().map(([name, { cursor, ledger, intake }]) =>
+      [name, { cursor, ledger: ledger.state(), intake }] as const)),
+    windows: cycle.windows.state(),
+    breakdown: cycle.breakdown.state(),
+    customers: cycle.customers.state(),
+    subscriptions: subscriptions.state(),
+  },
+});
 
-  return runningTotals;
+const saveCheckpoint = (save: Promise<void>) =>
+  save.catch(err => console.error('⚠️  Checkpoint failed:', err));
+
+// --- Stream with retries and broadcasting ------------------------------------
+// All sources are merged into one stream. A failed page fetch is retried on
+// its own (see above); a feed that runs out of attempts fails without
+// stopping the others. Once they are done, the stream restarts with backoff
+// and the failed feeds continue from their own cursors with the totals folded
+// so far. What follows a completed cycle depends on the cycle mode: nothing
+// (`once`), a new cycle from page one (`loop`) or another pass from the
+// current cursors (`follow`).
+let streamFailures = 0;
+const stopping = new AbortController();  // aborted on shutdown
+let running: Promise<void> = Promise.resolve();
+let restartTimer: ReturnType<typeof setTimeout> | undefined;
+
+const runStream = (polling = false) => {
+  running = safeStream(polling);
 };
 
-// --- Stream with basic retry and broadcasting -------------------------------
-const safeStream = async (): Promise<void> => {
+const safeStream = async (polling: boolean): Promise<void> => {
+  const startCursor = cycle.cursor;
   try {
-    console.log('📊 Starting FP data stream...\n');
+    if (!polling) console.log(`📊 Starting FP data stream from ${SOURCES.map(s => s.name).join(', ')}...\n`);
+    const { folds, windows, breakdown, customers } = cycle;
+    const cursors = Object.fromEntries(folds.entries().map(([name, { cursor }]) => [name, cursor] as const));
+    const pages = mergeSources(
+      Object.fromEntries(SOURCES.map(spec => [spec.name, retryPages((from, signal) => openOrderSource(spec, from, {
+        pageSize: CONFIG.pageSize,
+        partial: CONFIG.cycle !== 'follow',  // a followed file may still be growing
+        signal,
+        deadLetter,
+      }), {
+        fromPage: cursors[spec.name],
+        policy: RETRY_POLICY,
+        breaker: breakers.get(spec.name),
+        onRetry: reportRetry(spec.name),
+        signal: stopping.signal,
+      })] as const)),
+      { onStatus: updateSourceStatus, stallAfterMs: CONFIG.stallMs, fromIndex: cursors, signal: stopping.signal },
+    );
 
-    await streamTopCategories(fetchOrderPages(), 3, (snapshot, pageIndex) => {
-      const update = {
+    await streamNetRevenueBySource(pages, categoryLedger, CONFIG.topN, (snapshot, { source, index }, intake) => {
+      const pageIndex = cycle.cursor++;
+      cycle.intake = intake;
+      streamError = undefined;
+      streamFailures = 0;
+      const update: FullSnapshot = {
         type: 'top-categories',
         at: new Date().toISOString(),
+        seq: ++sequence,
         pageIndex,
-        items: snapshot.map(([category, sum]) => ({ category, sum })),
+        items: toEntries(snapshot),
+        currency: REPORTING_CURRENCY,
+        intake,
       };
+      const delta = diffSnapshot(latest.items, update.items, e => e.category);
+      latest = update;
+      const { type, ...record } = update;
+      history.append({ ...record, seq: sequence })
+        .catch(err => console.error('⚠️  History append failed:', err));
 
-      console.log(`📤 Broadcasting page ${pageIndex + 1} update to ${clients.size} clients`);
-      broadcast(update);
+      console.log(`📤 Broadcasting ${source} page ${index + 1} delta (seq ${sequence}) to ${clients.size} clients, ${eventStreams.size} event streams`);
+      // A client too slow for the delta chain gets this snapshot instead
+      let full: string | undefined;
+      broadcast({
+        data: encodeMessage({
+          type: 'top-categories-delta',
+          at: update.at,
+          seq: sequence,
+          pageIndex,
+          ...delta,
+          currency: REPORTING_CURRENCY,
+          intake,
+        }),
+        key: 'top-categories',
+        replacement: () => (full ??= encodeMessage(update)),
+      });
+      publishEvent(update, 'top-categories');
+      broadcast({ key: 'top-windows', data: encodeMessage(windowsMessage(update.at, cycle.windows.snapshots())) });
+      publishCustomers();
+      publishLeaderboards(update.at);
+      publishDrilldowns(update.at);
+      publishSources(update.at);
+      void saveCheckpoint(checkpointer.maybeSave(toCheckpoint));
+    }, {
+      deadLetter,
+      onPage: async (orders, { source }) => {
+        // Order ids are only unique within a feed
+        const scoped = orders.map(order => ({ ...order, id: `${source}:${order.id}` }));
+        await subscriptions.push(scoped);   // first: it may wait on the fold pool
+        windows.push(scoped);
+        scoped.forEach(order => {
+          breakdown.apply(order);
+          customers.apply(order);
+        });
+      },
+      folds,
+      signal: stopping.signal,
+      ranker: CONFIG.ranker === 'space-saving' ? spaceSaving<string>({ capacity: CONFIG.rankerCapacity }) : exactRanker<string>(),
     });
 
-    console.log('✅ Stream completed successfully');
+    const folded = cycle.cursor - startCursor;
+    if (folded > 0 || !polling) {
+      console.log(polling ? `✅ Caught up after ${folded} new pages` : '✅ Stream completed successfully');
+      await saveCheckpoint(checkpointer.save(toCheckpoint()));
+    }
 
-    // Start a new cycle after a delay for demo purposes
-    setTimeout(() => {
-      console.log('\n🔄 Restarting stream cycle...\n');
-      safeStream();
-    }, 5000);
+    if (CONFIG.cycle === 'loop') {
+      restartTimer = setTimeout(() => {
+        console.log('\n🔄 Restarting stream cycle...\n');
+        cycle = startCycle();
+        subscriptions.reset();
+        runStream();
+      }, CONFIG.cycleDelayMs);
+    } else if (CONFIG.cycle === 'follow') {
+      if (!polling) console.log(`👀 Following sources for new pages every ${CONFIG.followIntervalMs}ms`);
+      restartTimer = setTimeout(() => runStream(true), CONFIG.followIntervalMs);
+    } else {
+      console.log('⏸️  Cycle mode is once: serving the final totals until stopped');
+    }
 
   } catch (err) {
-    console.error('❌ Stream failed:', err);
-    setTimeout(safeStream, 5000); // Simple retry
+    if (isAbortError(err, stopping.signal)) {
+      console.log(`⏹️  Stream stopped after ${cycle.cursor} pages`);
+      return;
+    }
+    console.error('❌ Stream failed:', (err as Error).message);
+    const delayMs = backoffDelay(streamFailures++, { ...RETRY_POLICY.backoff, initialMs: 5000, maxMs: 60_000 });
+    streamError = {
+      type: 'error',
+      code: 'stream-failed',
+      message: `Data stream failed (${(err as Error).message}); retrying in ${Math.ceil(delayMs / 1000)}s from where each source stopped`,
+      at: new Date().toISOString(),
+    };
+    broadcast({ data: encodeMessage(streamError) });
+    publishEvent(streamError);
+    restartTimer = setTimeout(runStream, delayMs); // Retry from the current cursors
   }
 };
 
 // --- Graceful shutdown ------------------------------------------------------
-process.on('SIGINT', () => {
-  console.log('\n👋 Shutting down server...');
-  wss.close(() => {
-    console.log('✅ Server closed');
-    process.exit(0);
-  });
-});
+// SIGINT / SIGTERM stop intake at a page boundary: a page being folded is
+// finished, a page being fetched is abandoned (its cursor is not advanced).
+// Then the final state is saved, every client gets the final full snapshot
+// and is closed with 1001 "going away". A second signal, or the timeout,
+// exits at once.
+const SHUTDOWN_TIMEOUT_MS = CONFIG.shutdownTimeoutMs;
+const CLOSE_GOING_AWAY = 1001;
+
+const waitFor = async (done: () => boolean, until: number) => {
+  while (!done() && Date.now() < until) await delay(25);
+};
+
+const outboxesEmpty = () =>
+  [...clients.values().map(c => c.outbox), ...eventStreams]
+    .every(outbox => outbox.metrics().queued === 0 && outbox.metrics().bufferedBytes === 0);
+
+const shutdown = async (signal: NodeJS.Signals) => {
+  if (stopping.signal.aborted) {
+    console.log(`\n⚡ ${signal} again, exiting now`);
+    process.exit(1);
+  }
+  console.log(`\n👋 ${signal} received, shutting down (up to ${SHUTDOWN_TIMEOUT_MS}ms)...`);
+  const started = Date.now();
+  setTimeout(() => {
+    console.error(`⏱️  Shutdown took longer than ${SHUTDOWN_TIMEOUT_MS}ms, exiting`);
+    process.exit(1);
+  }, SHUTDOWN_TIMEOUT_MS).unref();
+
+  // Stop intake: no new pages, restarts or connections
+  clearTimeout(restartTimer);
+  clearTimeout(customersTimer);
+  stopping.abort(new DOMException('Server shutting down', 'AbortError'));
+  httpServer.close();
+  await running;
+  await foldPool?.close();
+
+  // Final state on disk, then on every client
+  await saveCheckpoint(checkpointer.save(toCheckpoint()));
+  await history.flush();
+  console.log(`💾 Final checkpoint saved (sequence ${sequence}, ${cycle.cursor} pages)`);
+  broadcast({ data: encodeMessage(latest), key: 'top-categories' });
+  publishEvent(latest, 'top-categories');
+  for (const outbox of eventStreams) outbox.enqueue({ data: ': server shutting down\n\n' });
+  await waitFor(outboxesEmpty, started + SHUTDOWN_TIMEOUT_MS / 2);
+
+  // Close with a reason and give clients a moment to answer the close frame
+  for (const ws of clients.keys()) ws.close(CLOSE_GOING_AWAY, 'server shutting down');
+  await waitFor(() => clients.size === 0, started + (SHUTDOWN_TIMEOUT_MS * 3) / 4);
+  wss.close();
+  httpServer.closeAllConnections();  // event streams and stragglers
+  console.log('✅ Server closed');
+  process.exit(0);
+};
+
+process.on('SIGINT', signal => void shutdown(signal));
+process.on('SIGTERM', signal => void shutdown(signal));
 
 // --- Start everything -------------------------------------------------------
-void safeStream();
+// The WebSocket server re-emits errors of the HTTP server it is attached to
+wss.on('error', err => {
+  const inUse = (err as NodeJS.ErrnoException).code === 'EADDRINUSE';
+  console.error(`❌ ${inUse ? `Port ${CONFIG.port} is already in use; pick another with --port or PORT` : `Server error: ${err.message}`}`);
+  process.exit(1);
+});
+httpServer.listen(CONFIG.port);
+runStream();
 
-console.log('🌐 WebSocket server listening on ws://localhost:8080');
+console.log(`🌐 WebSocket server listening on ws://localhost:${CONFIG.port}`);
+console.log(`🔎 JSON: http://localhost:${CONFIG.port}/api/{leaderboard,totals,windows,sources,customers,clients} • SSE: http://localhost:${CONFIG.port}/api/events`);
 console.log('🎯 Connect your React client to see live updates');
 console.log('💡 Press Ctrl+C to stop\n');
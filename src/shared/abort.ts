@@ -0,0 +1,79 @@
+/**
+ * Cancellation helpers built on `AbortSignal`
+ *
+ * Sources and folds take an optional `signal`. Once it is aborted, they
+ * stop at the next page boundary and reject with `signal.reason`, like
+ * `fetch` does. A page that is already being folded is finished; a page
+ * still being fetched is abandoned, so a cancelled run never counts half
+ * a page.
+ */
+
+/**
+ * Did this rejection come from cancelling (our signal, or any `AbortError`)?
+ */
+export const isAbortError = (err: unknown, signal?: AbortSignal): boolean =>
+  (signal?.aborted === true && err === signal.reason) ||
+  (err instanceof Error && err.name === 'AbortError');
+
+/**
+ * Resolve after `ms`, or reject with the abort reason as soon as `signal` fires
+ */
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Settle with `promise`, or reject with the abort reason if `signal` fires first
+ */
+export const raceAbort = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  // An abandoned promise may still reject later; that is expected, not unhandled
+  promise.catch(() => {});
+  if (signal.aborted) return Promise.reject(signal.reason);
+  let onAbort = () => {};
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+  return Promise.race([promise, aborted]).finally(() => signal.removeEventListener('abort', onAbort));
+};
+
+/**
+ * Items of `items` until `signal` fires: a pending `next()` is abandoned
+ * and the source is asked to clean up
+ */
+export async function* abortable<T>(items: AsyncIterable<T>, signal?: AbortSignal): AsyncGenerator<T, void, undefined> {
+  if (!signal) {
+    yield* items;
+    return;
+  }
+  const iterator = items[Symbol.asyncIterator]();
+  let finished = false;
+  try {
+    for (;;) {
+      const result = await raceAbort(iterator.next(), signal);
+      if (result.done) {
+        finished = true;
+        return;
+      }
+      yield result.value;
+      signal.throwIfAborted();
+    }
+  } finally {
+    // Not awaited: a generator busy with a fetch only returns once it settles
+    if (!finished) void iterator.return?.()?.catch(() => {});
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Generic streaming aggregation over paginated orders
+ *
+ * A pipeline is declared once as data (filter, grouping key, measure) and
+ * folded page by page into running totals, emitting rolling top-N snapshots.
+ */
+
+import type { Order, LineItem, RankedSnapshot, IntakeStats } from './types';
+import { partitionPage, emptyIntakeStats, type DeadLetterSink } from './validation';
+import { reportingMinor, type RateTable } from './money';
+import { abortable } from './abort';
+
+// --- Pipeline definition -----------------------------------------------------
+
+/**
+ * Declarative description of a leaderboard: which orders count,
+ * what each line item is grouped by and how much it contributes
+ */
+export type Aggregation<K = string> = {
+  filter: (order: Order) => boolean;
+  key: (order: Order, item: LineItem) => K;
+  measure: (order: Order, item: LineItem) => number;
+};
+
+// --- Building blocks ---------------------------------------------------------
+
+export const isPaid = (order: Order): boolean => order.status === 'paid';
+
+/** Line value converted into the reporting currency (minor units) */
+export const lineRevenue = (order: Order, item: LineItem): number =>
+  reportingMinor(order, item);
+
+/** Same as `lineRevenue` with a custom rate table and reporting currency */
+export const revenueIn = (table: RateTable, reporting: string = table.base) =>
+  (order: Order, item: LineItem): number => reportingMinor(order, item, table, reporting);
+
+export const lineQuantity = (_order: Order, item: LineItem): number => item.qty;
+
+export const byCategory = (_order: Order, item: LineItem): string => item.category;
+
+export const byCustomer = (order: Order): string => order.customerId;
+
+export const bySku = (_order: Order, item: LineItem): string => item.sku;
+
+/** Calendar day (UTC) of `createdAt`, e.g. `2025-08-01` */
+export const byDay = (order: Order): string => order.createdAt.slice(0, 10);
+
+/**
+ * Fill in the usual defaults (paid orders, revenue in reporting-currency minor units)
+ */
+export const defineAggregation = <K = string>(
+  spec: Pick<Aggregation<K>, 'key'> & Partial<Aggregation<K>>,
+): Aggregation<K> => ({
+  filter: isPaid,
+  measure: lineRevenue,
+  ...spec,
+});
+
+/** The original leaderboard: paid revenue per category */
+export const categoryRevenue: Aggregation<string> = defineAggregation({ key: byCategory });
+
+// --- Pure folds --------------------------------------------------------------
+
+/**
+ * Keep only the top N entries, highest first
+ */
+export const topNFromMap = <K>(map: Map<K, number>, n: number): Array<readonly [K, number]> =>
+  map.entries()
+    .toArray()
+    .toSorted((a, b) => b[1] - a[1])     // sort descending (immutable)
+    .values()                            // Array → Iterator
+    .take(n)                             // Iterator Helper method
+    .toArray();                          // final materialization
+
+/**
+ * Fold one page of orders into per-key totals
+ */
+export const processPage = <K>(aggregation: Aggregation<K>) =>
+  (page: Order[]): Map<K, number> =>
+    page
+      .filter(aggregation.filter)
+      .flatMap(o => o.items.map(it => ({
+        key: aggregation.key(o, it),
+        value: aggregation.measure(o, it),
+      })))
+      .reduce(
+        (acc, sale) => acc.set(sale.key, (acc.get(sale.key) ?? 0) + sale.value),
+        new Map<K, number>()
+      );
+
+/**
+ * Combine two total maps (associative, does not mutate its inputs)
+ */
+export const mergeTotals = <K>(a: Map<K, number>, b: Map<K, number>): Map<K, number> =>
+  b.entries().reduce(
+    (result, [key, total]) => result.set(key, (result.get(key) ?? 0) + total),
+    new Map(a) // defensive copy as initial value
+  );
+
+// --- Running totals strategy -------------------------------------------------
+
+/**
+ * Where page totals accumulate and snapshots are ranked from.
+ * The exact ranker keeps every key; sketches (see `./sketches`) keep a
+ * fixed number of counters for high-cardinality keys.
+ */
+export type Ranker<K> = {
+  add: (pageTotals: Map<K, number>) => void;
+  top: (n: number) => RankedSnapshot<K>;
+  totals: () => Map<K, number>;
+};
+
+/** Exact `Map` fold: memory grows with the number of distinct keys */
+export const exactRanker = <K>(initial: Map<K, number> = new Map()): Ranker<K> => {
+  let runningTotals = new Map(initial);
+  return {
+    add: pageTotals => { runningTotals = mergeTotals(runningTotals, pageTotals); },
+    top: n => topNFromMap(runningTotals, n),
+    totals: () => runningTotals,
+  };
+};
+
+// --- Rolling stream ----------------------------------------------------------
+
+export type SnapshotHandler<K> = (
+  snapshot: RankedSnapshot<K>,
+  pageIndex: number,
+  intake: IntakeStats,
+) => void;
+
+export type StreamOptions = {
+  /** Receives every record that fails validation (default: dropped) */
+  deadLetter?: DeadLetterSink;
+  /** Sees each page's valid orders before the snapshot, so other folds can ride along */
+  onPage?: (orders: Order[], pageIndex: number) => void;
+  /** Continue numbering and intake counts from a checkpoint */
+  resumeFrom?: { pageIndex: number; intake: IntakeStats };
+  /** Stop at the next page boundary and reject with the abort reason */
+  signal?: AbortSignal;
+};
+
+/**
+ * Run an aggregation over a page stream, emitting a top-N snapshot per page.
+ * Records are validated on the way in; only valid orders reach the fold.
+ * Resolves with the final running totals once the source is exhausted
+ * (for an approximate ranker: the estimates it still monitors).
+ */
+export const streamTopN = async <K>(
+  pages: AsyncIterable<ReadonlyArray<unknown>>,
+  aggregation: Aggregation<K>,
+  limit: number,
+  onUpdate: SnapshotHandler<K>,
+  { deadLetter = () => {}, onPage = () => {}, resumeFrom, signal, ranker = exactRanker<K>() }:
+    StreamOptions & { ranker?: Ranker<K> } = {},
+): Promise<Map<K, number>> => {
+  const pageTotals = processPage(aggregation);
+  let intake = resumeFrom?.intake ?? emptyIntakeStats();
+  let pageIndex = resumeFrom?.pageIndex ?? 0;
+
+  for await (const page of abortable(pages, signal)) {   // still need async iteration
+    const { valid, rejected } = partitionPage(page, pageIndex);
+    rejected.forEach(deadLetter);
+    intake = {
+      accepted: intake.accepted + valid.length,
+      rejected: intake.rejected + rejected.length,
+    };
+
+    onPage(valid, pageIndex);
+    ranker.add(pageTotals(valid));
+    onUpdate(ranker.top(limit), pageIndex++, intake); // emit snapshot
+  }
+
+  return ranker.totals();
+};
+
+// --- Category leaderboard (original API) -------------------------------------
+
+export const processPageToSales: (page: Order[]) => Map<string, number> =
+  processPage(categoryRevenue);
+
+export const mergeCategoryTotals = (
+  a: Map<string, number>,
+  b: Map<string, number>,
+): Map<string, number> => mergeTotals(a, b);
+
+export const streamTopCategories = (
+  pages: AsyncIterable<ReadonlyArray<unknown>>,
+  limit: number,
+  onUpdate: SnapshotHandler<string>,
+  options?: StreamOptions,
+): Promise<Map<string, number>> =>
+  streamTopN(pages, categoryRevenue, limit, onUpdate, options);
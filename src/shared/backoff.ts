@@ -0,0 +1,33 @@
+/**
+ * Exponential backoff with jitter
+ *
+ * Shared by anything that retries: the dashboard reconnecting its socket,
+ * the server re-fetching a page. Full jitter spreads retries of many
+ * clients over the whole interval instead of synchronizing them.
+ */
+
+export type BackoffOptions = {
+  initialMs?: number;  // delay cap for the first retry
+  maxMs?: number;      // upper bound for any delay
+  factor?: number;     // growth per attempt
+};
+
+export const DEFAULT_BACKOFF: Required<BackoffOptions> = {
+  initialMs: 500,
+  maxMs: 30_000,
+  factor: 2,
+};
+
+/**
+ * Delay before retry number `attempt` (0-based): uniformly random in
+ * `[0, min(maxMs, initialMs * factor^attempt)]`
+ */
+export const backoffDelay = (
+  attempt: number,
+  options: BackoffOptions = {},
+  random: () => number = Math.random,
+): number => {
+  const { initialMs, maxMs, factor } = { ...DEFAULT_BACKOFF, ...options };
+  const cap = Math.min(maxMs, initialMs * factor ** attempt);
+  return Math.round(random() * cap);
+};
@@ -0,0 +1,99 @@
+/**
+ * Checkpoints for long-running streams
+ *
+ * A checkpoint pairs the fold state with the cursor of the next page to
+ * fetch, written together in one atomic file replace. Resuming from it
+ * therefore never counts a page twice: either both the state and the
+ * cursor include a page, or neither does.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+export const CHECKPOINT_VERSION = 1;
+
+export type Checkpoint<S> = {
+  version: typeof CHECKPOINT_VERSION;
+  savedAt: string;
+  cursor: number;     // next page to fetch
+  sequence: number;   // last emitted snapshot sequence number
+  state: S;
+};
+
+/**
+ * Latest checkpoint at `path`, or `undefined` when there is none yet
+ */
+export const readCheckpoint = async <S>(path: string): Promise<Checkpoint<S> | undefined> => {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+    throw err;
+  }
+
+  const checkpoint = JSON.parse(text) as Checkpoint<S>;
+  if (checkpoint.version !== CHECKPOINT_VERSION) {
+    throw new Error(`${path}: unsupported checkpoint version ${checkpoint.version} (expected ${CHECKPOINT_VERSION})`);
+  }
+  return checkpoint;
+};
+
+/**
+ * Write to a temporary file, then rename over the old checkpoint, so a crash
+ * mid-write leaves the previous checkpoint intact
+ */
+export const writeCheckpoint = async <S>(path: string, checkpoint: Checkpoint<S>): Promise<void> => {
+  await mkdir(dirname(path), { recursive: true });
+  const tmp = `${path}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(checkpoint), 'utf8');
+  await rename(tmp, path);
+};
+
+// --- Interval policy ---------------------------------------------------------
+
+export type CheckpointPolicy = {
+  path: string;
+  /** Save after this many pages (default 1) */
+  everyPages?: number;
+  /** ...or once this much time has passed since the last save (ms) */
+  everyMs?: number;
+};
+
+export type Checkpointer<S> = {
+  /** Save if the policy says it is due; `build` is only called when saving */
+  maybeSave: (build: () => Omit<Checkpoint<S>, 'version' | 'savedAt'>) => Promise<void>;
+  /** Save unconditionally (e.g. at the end of a cycle or on shutdown) */
+  save: (checkpoint: Omit<Checkpoint<S>, 'version' | 'savedAt'>) => Promise<void>;
+};
+
+export const createCheckpointer = <S>({ path, everyPages = 1, everyMs = Infinity }: CheckpointPolicy): Checkpointer<S> => {
+  let pagesSinceSave = 0;
+  let lastSave = Date.now();
+  let writing: Promise<void> = Promise.resolve();
+  let inFlight = 0;
+
+  const save = (checkpoint: Omit<Checkpoint<S>, 'version' | 'savedAt'>): Promise<void> => {
+    pagesSinceSave = 0;
+    lastSave = Date.now();
+    inFlight++;
+    // Serialize writes so an older checkpoint can never overwrite a newer one;
+    // a failed write must not block the ones after it
+    writing = writing.catch(() => {}).then(() => writeCheckpoint(path, {
+      version: CHECKPOINT_VERSION,
+      savedAt: new Date().toISOString(),
+      ...checkpoint,
+    })).finally(() => { inFlight--; });
+    return writing;
+  };
+
+  // A save that is due while the last one is still being written waits for
+  // the next page, so slow writes cannot queue up whole copies of the state
+  const maybeSave = async (build: () => Omit<Checkpoint<S>, 'version' | 'savedAt'>): Promise<void> => {
+    pagesSinceSave++;
+    if (inFlight > 0) return;
+    if (pagesSinceSave >= everyPages || Date.now() - lastSave >= everyMs) await save(build());
+  };
+
+  return { maybeSave, save };
+};
@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkMessage, decodeClientMessage, decodeServerMessage, encodeMessage, type DecodeResult } from './codec';
+import type { WebSocketMessage } from './types';
+
+const issuesOf = (result: DecodeResult<WebSocketMessage>) => {
+  assert.equal(result.ok, false);
+  return result.ok ? [] : result.issues;
+};
+
+test('a well-formed client message is decoded', () => {
+  const result = decodeClientMessage(JSON.stringify({ type: 'subscribe', requestId: 'r1', params: { limit: 5 } }));
+
+  assert.deepEqual(result, { ok: true, message: { type: 'subscribe', requestId: 'r1', params: { limit: 5 } } });
+});
+
+test('a frame that is not JSON is rejected', () => {
+  const [issue, ...rest] = issuesOf(decodeClientMessage('{"type": "ping"'));
+
+  assert.equal(issue?.path, '');
+  assert.match(issue?.message ?? '', /^is not valid JSON/);
+  assert.deepEqual(rest, []);
+});
+
+test('a server message, or an unknown type, sent by a client is rejected', () => {
+  assert.deepEqual(issuesOf(decodeClientMessage(JSON.stringify({ type: 'pong' }))), [
+    { path: 'type', message: 'unexpected message type "pong"' },
+  ]);
+  assert.deepEqual(issuesOf(decodeClientMessage(JSON.stringify({ type: 'shutdown' }))), [
+    { path: 'type', message: 'unexpected message type "shutdown"' },
+  ]);
+  assert.deepEqual(checkMessage({ type: 'shutdown' }), [
+    { path: 'type', message: 'unknown message type "shutdown"' },
+  ]);
+});
+
+test('every field of the wrong type is reported with its path', () => {
+  const result = decodeClientMessage(JSON.stringify({ type: 'subscribe', requestId: 7, params: { limit: 'ten', status: ['paid', 1] } }));
+
+  assert.deepEqual(issuesOf(result), [
+    { path: 'requestId', message: 'must be a string, got 7' },
+    { path: 'params.limit', message: 'must be a finite number, got "ten"' },
+    { path: 'params.status[1]', message: 'must be a string, got 1' },
+  ]);
+});
+
+test('a message that is not an object is rejected', () => {
+  assert.deepEqual(issuesOf(decodeServerMessage('[1, 2]')), [{ path: '', message: 'must be an object' }]);
+});
+
+test('an invalid outgoing message is logged and not encoded', (t) => {
+  const logged = t.mock.method(console, 'error', () => {});
+  const invalid = { type: 'unsubscribed', subscription: 42 } as unknown as WebSocketMessage;
+
+  assert.equal(encodeMessage(invalid), undefined);
+  assert.equal(logged.mock.callCount(), 1);
+  assert.equal(encodeMessage({ type: 'unsubscribed', subscription: 's1' }), '{"type":"unsubscribed","subscription":"s1"}');
+});
@@ -0,0 +1,283 @@
+/**
+ * Runtime-checked codec for the WebSocket protocol
+ *
+ * `WebSocketMessage` only exists at compile time. Both ends encode and
+ * decode through this module, so a malformed frame is caught where it
+ * arrives, with the same issue format as order validation, instead of
+ * surfacing later as `undefined` somewhere in a component.
+ */
+
+import type { WebSocketMessage, ClientMessage, ServerMessage } from './types';
+import { isRecord, formatIssues, type ValidationIssue } from './validation';
+
+// --- Protocol version --------------------------------------------------------
+
+/**
+ * Bumped on incompatible changes. Clients send theirs as `?protocol=N`;
+ * the server echoes the version it speaks in `hello`.
+ */
+export const PROTOCOL_VERSION = 1;
+export const SUPPORTED_PROTOCOLS: ReadonlyArray<number> = [1];
+
+/** Close code for a client speaking a version the server does not support */
+export const CLOSE_UNSUPPORTED_PROTOCOL = 4001;
+
+/** Close code for a client that fell too far behind the live feed */
+export const CLOSE_TOO_SLOW = 4002;
+
+export const withProtocol = (url: string): string =>
+  `${url}${url.includes('?') ? '&' : '?'}protocol=${PROTOCOL_VERSION}`;
+
+/**
+ * Clients that don't say (scripts, older builds) are assumed to speak the
+ * current version
+ */
+export const negotiateProtocol = (
+  requested: string | null,
+): { ok: true; version: number } | { ok: false; message: string } => {
+  if (requested === null) return { ok: true, version: PROTOCOL_VERSION };
+  const version = Number(requested);
+  return SUPPORTED_PROTOCOLS.includes(version)
+    ? { ok: true, version }
+    : { ok: false, message: `Unsupported protocol version ${JSON.stringify(requested)} (server speaks ${SUPPORTED_PROTOCOLS.join(', ')})` };
+};
+
+// --- Schema checks -----------------------------------------------------------
+
+type Check = (value: unknown, path: string) => ValidationIssue[];
+
+const at = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const is = (test: (value: unknown) => boolean, expected: string): Check =>
+  (value, path) => test(value) ? [] : [{ path, message: `must be ${expected}, got ${JSON.stringify(value)}` }];
+
+const string = is(v => typeof v === 'string', 'a string');
+const integer = is(Number.isSafeInteger, 'an integer');
+const boolean = is(v => typeof v === 'boolean', 'a boolean');
+const number = is(Number.isFinite, 'a finite number');
+
+const optional = (check: Check): Check =>
+  (value, path) => value === undefined ? [] : check(value, path);
+
+const nullable = (check: Check): Check =>
+  (value, path) => value === null ? [] : check(value, path);
+
+const arrayOf = (check: Check): Check =>
+  (value, path) => Array.isArray(value)
+    ? value.flatMap((item, i) => check(item, at(path, i)))
+    : [{ path, message: 'must be an array' }];
+
+type Shape = Record<string, Check>;
+
+const object = (shape: Shape): Check =>
+  (value, path) => isRecord(value)
+    ? Object.entries(shape).flatMap(([key, check]) => check(value[key], at(path, key)))
+    : [{ path, message: 'must be an object' }];
+
+const recordOf = (check: Check): Check =>
+  (value, path) => isRecord(value)
+    ? Object.entries(value).flatMap(([key, item]) => check(item, at(path, key)))
+    : [{ path, message: 'must be an object' }];
+
+const partial = (shape: Shape): Shape =>
+  Object.fromEntries(Object.entries(shape).map(([key, check]) => [key, optional(check)]));
+
+// --- Message schemas ---------------------------------------------------------
+
+const intake = object({ accepted: integer, rejected: integer });
+const categoryEntry = object({ category: string, sum: integer, gross: optional(integer), refunded: optional(integer) });
+const categorySum = object({ category: string, sum: integer });
+
+const snapshotRecord: Shape = {
+  at: string,
+  seq: integer,
+  pageIndex: integer,
+  items: arrayOf(categoryEntry),
+  currency: optional(string),
+  intake: optional(intake),
+};
+
+const subscriptionParams: Shape = {
+  dimension: string,
+  limit: number,
+  status: arrayOf(string),
+  window: nullable(string),
+  metric: string,
+};
+
+/**
+ * One schema per variant (besides `type`); the mapped type makes a new
+ * variant without a schema a compile error
+ */
+const MESSAGE_SCHEMAS: { [T in WebSocketMessage['type']]: Shape } = {
+  hello: { msg: string, protocol: optional(integer) },
+  'top-categories': { ...snapshotRecord, seq: optional(integer) },
+  'top-categories-delta': {
+    at: string,
+    seq: integer,
+    pageIndex: integer,
+    changed: arrayOf(categoryEntry),
+    added: arrayOf(categoryEntry),
+    removed: arrayOf(string),
+    currency: optional(string),
+    intake: optional(intake),
+  },
+  'top-windows': {
+    at: string,
+    pageIndex: integer,
+    watermark: optional(string),
+    late: object({ orders: integer, total: integer }),
+    currency: optional(string),
+    windows: arrayOf(object({ window: string, start: string, end: string, final: boolean, items: arrayOf(categorySum) })),
+  },
+  subscribe: { requestId: optional(string), params: object(partial(subscriptionParams)) },
+  unsubscribe: { subscription: string },
+  resync: { lastSeq: optional(integer) },
+  subscribed: { requestId: optional(string), subscription: string, params: object(subscriptionParams) },
+  unsubscribed: { subscription: string },
+  leaderboard: {
+    subscription: string,
+    at: string,
+    pageIndex: integer,
+    fromPageIndex: optional(integer),
+    window: optional(object({ start: string, end: string })),
+    currency: optional(string),
+    items: arrayOf(object({ key: string, sum: integer, metrics: optional(recordOf(integer)) })),
+  },
+  error: { message: string, at: string, requestId: optional(string), code: optional(string) },
+  'history-request': {
+    requestId: optional(string),
+    fromSeq: optional(integer),
+    toSeq: optional(integer),
+    from: optional(string),
+    to: optional(string),
+    limit: optional(integer),
+  },
+  history: {
+    requestId: optional(string),
+    oldestSeq: optional(integer),
+    latestSeq: optional(integer),
+    entries: arrayOf(object(snapshotRecord)),
+  },
+  drilldown: { category: nullable(string), limit: optional(integer) },
+  'category-detail': {
+    at: string,
+    pageIndex: integer,
+    currency: optional(string),
+    detail: object({
+      category: string,
+      net: integer,
+      orders: integer,
+      units: integer,
+      aov: integer,
+      topSkus: arrayOf(object({ key: string, sum: integer, qty: integer })),
+      topCustomers: arrayOf(object({ key: string, sum: integer, orders: integer })),
+    }),
+  },
+  sources: {
+    at: string,
+    currency: optional(string),
+    sources: arrayOf(object({
+      source: string,
+      state: string,
+      pages: integer,
+      lastPageAt: optional(string),
+      error: optional(string),
+      circuit: optional(string),
+      attempt: optional(integer),
+      retryAt: optional(string),
+      intake,
+      items: arrayOf(categoryEntry),
+    })),
+  },
+  customers: {
+    at: string,
+    pageIndex: integer,
+    currency: optional(string),
+    analytics: object({
+      asOf: optional(string),
+      customers: integer,
+      repeatCustomers: integer,
+      segments: arrayOf(object({ segment: string, customers: integer, net: integer })),
+      cohorts: arrayOf(object({ cohort: string, customers: integer, active: arrayOf(integer) })),
+      topCustomers: arrayOf(object({
+        customerId: string,
+        net: integer,
+        orders: integer,
+        firstOrderAt: string,
+        lastOrderAt: string,
+        segment: string,
+      })),
+    }),
+  },
+  ping: { t: number },
+  pong: { t: number },
+};
+
+export const CLIENT_MESSAGE_TYPES: ReadonlyArray<ClientMessage['type']> = ['subscribe', 'unsubscribe', 'resync', 'history-request', 'drilldown', 'ping'];
+
+export const SERVER_MESSAGE_TYPES: ReadonlyArray<ServerMessage['type']> = [
+  'hello', 'top-categories', 'top-categories-delta', 'top-windows',
+  'subscribed', 'unsubscribed', 'leaderboard', 'history', 'category-detail', 'sources', 'customers', 'error', 'pong',
+];
+
+/**
+ * Every issue with a message, or none
+ */
+export const checkMessage = (value: unknown): ValidationIssue[] => {
+  if (!isRecord(value)) return [{ path: '', message: 'must be an object' }];
+  if (!Object.hasOwn(MESSAGE_SCHEMAS, value.type as string)) {
+    return [{ path: 'type', message: `unknown message type ${JSON.stringify(value.type)}` }];
+  }
+  return object(MESSAGE_SCHEMAS[value.type as WebSocketMessage['type']])(value, '');
+};
+
+// --- Encode / decode ---------------------------------------------------------
+
+export type DecodeResult<M> =
+  | { ok: true; message: M }
+  | { ok: false; issues: ValidationIssue[] };
+
+/**
+ * Serialize a message, refusing to put a malformed one on the wire: it is
+ * logged and skipped (`undefined`), so one bad message does not take down
+ * the sender
+ */
+export const encodeMessage = (message: WebSocketMessage): string | undefined => {
+  const issues = checkMessage(message);
+  if (issues.length > 0) {
+    console.error(`⚠️  Not sending an invalid ${message.type} message: ${formatIssues(issues, 'message')}`);
+    return undefined;
+  }
+  return JSON.stringify(message);
+};
+
+/**
+ * Parse and check a frame, accepting only the given message types
+ */
+export const decodeMessage = <T extends WebSocketMessage['type']>(
+  data: string,
+  accepted: ReadonlyArray<T>,
+): DecodeResult<Extract<WebSocketMessage, { type: T }>> => {
+  let value: unknown;
+  try {
+    value = JSON.parse(data);
+  } catch (err) {
+    return { ok: false, issues: [{ path: '', message: `is not valid JSON (${(err as Error).message})` }] };
+  }
+
+  if (isRecord(value) && !accepted.includes(value.type as T)) {
+    return { ok: false, issues: [{ path: 'type', message: `unexpected message type ${JSON.stringify(value.type)}` }] };
+  }
+  const issues = checkMessage(value);
+  return issues.length === 0
+    ? { ok: true, message: value as Extract<WebSocketMessage, { type: T }> }
+    : { ok: false, issues };
+};
+
+export const decodeClientMessage = (data: string): DecodeResult<ClientMessage> =>
+  decodeMessage(data, CLIENT_MESSAGE_TYPES);
+
+export const decodeServerMessage = (data: string): DecodeResult<ServerMessage> =>
+  decodeMessage(data, SERVER_MESSAGE_TYPES);
@@ -0,0 +1,260 @@
+/**
+ * Typed server configuration
+ *
+ * Every setting can come from a command-line flag (`--top-n 5`), an
+ * environment variable (`TOP_N=5`) or a JSON config file (`{ "topN": 5 }`,
+ * passed as `--config <file>` or `CONFIG_FILE`). Flags win over the
+ * environment, the environment over the file, the file over the defaults.
+ * Values are checked as they are read, and every problem is reported at
+ * once with where the bad value came from.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { parseSourceSpecs, DEFAULT_PAGE_SIZE, type SourceSpec } from './sources';
+import { BACKPRESSURE_POLICIES, type BackpressurePolicy } from './outbox';
+import { MAX_LIMIT } from './subscriptions';
+import { DEFAULT_RETRY } from './retry';
+import { DAY } from './windows';
+import { isRecord, type ValidationIssue } from './validation';
+
+// --- Settings ---------------------------------------------------------------
+
+/**
+ * What happens once every source has run out of pages:
+ * - `once`: stop reading and keep serving the final totals
+ * - `loop`: start a new cycle from page one after `cycleDelayMs`
+ * - `follow`: keep the totals and poll the sources for new pages every
+ *   `followIntervalMs`, like `tail -f`
+ */
+export type CycleMode = 'once' | 'loop' | 'follow';
+
+export const CYCLE_MODES: ReadonlyArray<CycleMode> = ['once', 'loop', 'follow'];
+
+/**
+ * How the leaderboard picks its top N:
+ * - `exact`: sort every key's net revenue after each page
+ * - `space-saving`: keep `rankerCapacity` counters (see `spaceSaving`);
+ *   ranks are approximate once there are more keys than counters
+ */
+export type RankerKind = 'exact' | 'space-saving';
+
+export const RANKERS: ReadonlyArray<RankerKind> = ['exact', 'space-saving'];
+
+export type ServerConfig = {
+  port: number;
+  sources: SourceSpec[];
+  pageSize: number;               // orders per page of a file source
+  topN: number;                   // categories in the leaderboard
+  ranker: RankerKind;
+  rankerCapacity: number;         // counters of the space-saving ranker
+  cycle: CycleMode;
+  cycleDelayMs: number;           // pause before the next `loop` cycle
+  followIntervalMs: number;       // poll interval in `follow` mode
+  stallMs: number;
+  retryMaxAttempts: number;
+  breakerFailureThreshold: number;
+  breakerResetMs: number;
+  heartbeatMs: number;
+  shutdownTimeoutMs: number;
+  checkpointFile: string;
+  checkpointEveryPages: number;
+  checkpointEveryMs: number;
+  settleAfterMs: number;          // orders this far behind the newest are no longer reconciled
+  historyFile: string;
+  historyMaxEntries: number;
+  deadLetterFile: string | undefined;   // rejected orders as NDJSON, when set
+  rateTable: string | undefined;  // exchange rates as JSON, instead of the built-in table
+  backpressurePolicy: BackpressurePolicy;
+  outboxHighWaterBytes: number;
+  outboxMaxBytes: number;
+  workers: number;                // fold pool threads for subscriptions (0: main thread)
+};
+
+type Parsed<T> = { ok: true; value: T } | { ok: false; message: string };
+
+type Setting<T> = {
+  env: string;
+  parse: (raw: unknown) => Parsed<T>;
+  default: T;
+  help: string;
+};
+
+const show = (raw: unknown) => JSON.stringify(raw);
+
+const integer = (min: number, max = Number.MAX_SAFE_INTEGER) => (raw: unknown): Parsed<number> => {
+  const value = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+  return Number.isSafeInteger(value) && (value as number) >= min && (value as number) <= max
+    ? { ok: true, value: value as number }
+    : { ok: false, message: `must be an integer ${max === Number.MAX_SAFE_INTEGER ? `>= ${min}` : `from ${min} to ${max}`}, got ${show(raw)}` };
+};
+
+const oneOf = <T extends string>(choices: ReadonlyArray<T>) => (raw: unknown): Parsed<T> =>
+  choices.includes(raw as T)
+    ? { ok: true, value: raw as T }
+    : { ok: false, message: `must be one of ${choices.join(', ')}, got ${show(raw)}` };
+
+const path = (raw: unknown): Parsed<string> =>
+  typeof raw === 'string' && raw.trim() !== ''
+    ? { ok: true, value: raw }
+    : { ok: false, message: `must be a file path, got ${show(raw)}` };
+
+// A comma-separated list, or in a config file also an array of entries
+const sourceList = (raw: unknown): Parsed<SourceSpec[]> => {
+  const list = Array.isArray(raw) && raw.every(s => typeof s === 'string') ? raw.join(',') : raw;
+  if (typeof list !== 'string') {
+    return { ok: false, message: `must be a list such as "eu=data/eu.ndjson,us=data/us.csv", got ${show(raw)}` };
+  }
+  try {
+    return { ok: true, value: parseSourceSpecs(list) };
+  } catch (err) {
+    return { ok: false, message: `is not a valid feed list (${(err as Error).message})` };
+  }
+};
+
+const SETTINGS: { [K in keyof ServerConfig]: Setting<ServerConfig[K]> } = {
+  port: { env: 'PORT', parse: integer(1, 65_535), default: 8080, help: 'HTTP and WebSocket port' },
+  sources: { env: 'ORDER_SOURCES', parse: sourceList, default: parseSourceSpecs('mock'), help: 'feeds to merge: name, name=mock, name=<file> or name=synthetic?<options>' },
+  pageSize: { env: 'PAGE_SIZE', parse: integer(1), default: DEFAULT_PAGE_SIZE, help: 'orders per page of a file source' },
+  topN: { env: 'TOP_N', parse: integer(1, MAX_LIMIT), default: 3, help: 'categories in the leaderboard' },
+  ranker: { env: 'RANKER', parse: oneOf(RANKERS), default: 'exact', help: RANKERS.join(' | ') },
+  rankerCapacity: { env: 'RANKER_CAPACITY', parse: integer(1), default: 1000, help: 'counters kept by the space-saving ranker' },
+  cycle: { env: 'CYCLE_MODE', parse: oneOf(CYCLE_MODES), default: 'loop', help: CYCLE_MODES.join(' | ') },
+  cycleDelayMs: { env: 'CYCLE_DELAY_MS', parse: integer(0), default: 5000, help: 'pause between loop cycles' },
+  followIntervalMs: { env: 'FOLLOW_INTERVAL_MS', parse: integer(100), default: 5000, help: 'poll interval in follow mode' },
+  stallMs: { env: 'SOURCE_STALL_MS', parse: integer(1), default: 10_000, help: 'report a feed stalled after this long without a page' },
+  retryMaxAttempts: { env: 'RETRY_MAX_ATTEMPTS', parse: integer(1), default: DEFAULT_RETRY.maxAttempts, help: 'failed fetches of one page before its feed fails' },
+  breakerFailureThreshold: { env: 'BREAKER_FAILURE_THRESHOLD', parse: integer(1), default: 3, help: 'consecutive failures that open a circuit' },
+  breakerResetMs: { env: 'BREAKER_RESET_MS', parse: integer(0), default: 30_000, help: 'pause before an open circuit lets a trial through' },
+  heartbeatMs: { env: 'HEARTBEAT_MS', parse: integer(1000), default: 15_000, help: 'ping interval for idle connections' },
+  shutdownTimeoutMs: { env: 'SHUTDOWN_TIMEOUT_MS', parse: integer(0), default: 10_000, help: 'exit anyway after this long on SIGINT/SIGTERM' },
+  checkpointFile: { env: 'CHECKPOINT_FILE', parse: path, default: '.checkpoints/server.json', help: 'where stream state is saved' },
+  checkpointEveryPages: { env: 'CHECKPOINT_EVERY_PAGES', parse: integer(1), default: 1000, help: 'save after this many pages...' },
+  checkpointEveryMs: { env: 'CHECKPOINT_EVERY_MS', parse: integer(0), default: 10_000, help: '...or this long, whichever comes first' },
+  settleAfterMs: { env: 'SETTLE_AFTER_MS', parse: integer(0), default: 30 * DAY, help: 'event time after which an order settles and is forgotten' },
+  historyFile: { env: 'HISTORY_FILE', parse: path, default: '.history/snapshots.ndjson', help: 'snapshot log for replay' },
+  historyMaxEntries: { env: 'HISTORY_MAX_ENTRIES', parse: integer(1), default: 5000, help: 'snapshots kept in the log' },
+  deadLetterFile: { env: 'DEAD_LETTER_FILE', parse: path, default: undefined, help: 'append rejected orders here as NDJSON' },
+  rateTable: { env: 'RATE_TABLE', parse: path, default: undefined, help: 'exchange rates as JSON ({ "base", "rates" }) instead of the built-in table' },
+  backpressurePolicy: { env: 'BACKPRESSURE_POLICY', parse: oneOf(BACKPRESSURE_POLICIES), default: 'conflate', help: BACKPRESSURE_POLICIES.join(' | ') },
+  outboxHighWaterBytes: { env: 'OUTBOX_HIGH_WATER_BYTES', parse: integer(0), default: 64 * 1024, help: 'buffered bytes before a client counts as slow' },
+  outboxMaxBytes: { env: 'OUTBOX_MAX_BYTES', parse: integer(1), default: 1024 * 1024, help: 'queued bytes before a slow client is dropped' },
+  workers: { env: 'FOLD_WORKERS', parse: integer(0, 64), default: 0, help: 'worker threads grouping pages for all-time subscriptions (0: none; the main stream is single-threaded)' },
+};
+
+const KEYS = Object.keys(SETTINGS) as (keyof ServerConfig)[];
+
+// `checkpointEveryMs` ↔ `--checkpoint-every-ms`
+const toFlag = (key: string) => `--${key.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`)}`;
+const FLAGS = new Set(KEYS.map(toFlag));
+
+// --- Reading ----------------------------------------------------------------
+
+export type ConfigResult =
+  | { ok: true; config: ServerConfig; file?: string }
+  | { ok: false; issues: ValidationIssue[] };
+
+/**
+ * `--name value` / `--name=value` pairs; unknown flags and missing values
+ * are issues, not silently ignored
+ */
+const parseFlags = (argv: ReadonlyArray<string>) => {
+  const values = new Map<string, string>();
+  const issues: ValidationIssue[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    const [flag = '', inline] = arg.startsWith('--') ? arg.split(/=(.*)/s, 2) : [arg];
+    if (!flag.startsWith('--')) {
+      issues.push({ path: arg, message: 'is not an option' });
+      continue;
+    }
+    if (flag !== '--config' && !FLAGS.has(flag)) {
+      issues.push({ path: flag, message: 'is not a known option (see --help)' });
+      if (inline === undefined && argv[i + 1]?.startsWith('--') === false) i++;  // and its value
+      continue;
+    }
+    const value = inline ?? argv[++i];
+    if (value === undefined || (inline === undefined && value.startsWith('--'))) {
+      issues.push({ path: flag, message: 'needs a value' });
+      if (value !== undefined) i--;
+      continue;
+    }
+    values.set(flag, value);
+  }
+  return { values, issues };
+};
+
+const readConfigFile = async (file: string): Promise<{ values: Record<string, unknown>; issues: ValidationIssue[] }> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(file, 'utf8'));
+  } catch (err) {
+    return { values: {}, issues: [{ path: file, message: `could not be read (${(err as Error).message})` }] };
+  }
+  if (!isRecord(parsed)) {
+    return { values: {}, issues: [{ path: file, message: 'must contain a JSON object' }] };
+  }
+  const unknown = Object.keys(parsed).filter(key => !Object.hasOwn(SETTINGS, key));
+  return {
+    values: parsed,
+    issues: unknown.map(key => ({ path: `${file}: ${key}`, message: 'is not a known setting' })),
+  };
+};
+
+/**
+ * Resolve every setting from flags, environment and config file
+ */
+export const loadConfig = async (
+  argv: ReadonlyArray<string> = process.argv.slice(2),
+  env: Readonly<Record<string, string | undefined>> = process.env,
+): Promise<ConfigResult> => {
+  const flags = parseFlags(argv);
+  const file = flags.values.get('--config') ?? env.CONFIG_FILE;
+  const fromFile = file === undefined ? { values: {}, issues: [] } : await readConfigFile(file);
+  const issues = [...flags.issues, ...fromFile.issues];
+
+  const resolve = <K extends keyof ServerConfig>(key: K): ServerConfig[K] => {
+    const { env: name, parse, default: fallback } = SETTINGS[key];
+    const flag = toFlag(key);
+    const [origin, raw] =
+      flags.values.has(flag) ? [flag, flags.values.get(flag)]
+      : env[name] !== undefined ? [name, env[name]]
+      : Object.hasOwn(fromFile.values, key) ? [`${file}: ${key}`, fromFile.values[key]]
+      : [undefined, undefined];
+    if (origin === undefined) return fallback;
+    const parsed = parse(raw);
+    if (parsed.ok) return parsed.value;
+    issues.push({ path: origin, message: parsed.message });
+    return fallback;
+  };
+
+  const config = Object.fromEntries(KEYS.map(key => [key, resolve(key)] as const)) as ServerConfig;
+
+  if (config.outboxHighWaterBytes > config.outboxMaxBytes) {
+    issues.push({ path: 'outboxHighWaterBytes', message: `(${config.outboxHighWaterBytes}) must not exceed outboxMaxBytes (${config.outboxMaxBytes})` });
+  }
+  if (config.ranker === 'space-saving' && config.rankerCapacity < config.topN) {
+    issues.push({ path: 'rankerCapacity', message: `(${config.rankerCapacity}) must be at least topN (${config.topN})` });
+  }
+  if (config.checkpointFile === config.historyFile) {
+    issues.push({ path: 'checkpointFile', message: `and historyFile must be different files, both are "${config.checkpointFile}"` });
+  }
+  if (config.deadLetterFile !== undefined && [config.checkpointFile, config.historyFile].includes(config.deadLetterFile)) {
+    issues.push({ path: 'deadLetterFile', message: `must not be the checkpoint or history file, got "${config.deadLetterFile}"` });
+  }
+
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, config, ...(file === undefined ? {} : { file }) };
+};
+
+/**
+ * Every setting with its flag, variable and default, for `--help`
+ */
+export const configUsage = (): string => [
+  'Usage: npm run server -- [--config <file.json>] [--<setting> <value> ...]',
+  '',
+  'Settings (flag, environment variable, config file key; flags win over the environment, the environment over the file):',
+  ...KEYS.map(key => {
+    const { env, default: fallback, help } = SETTINGS[key];
+    const shown = key === 'sources' ? 'mock' : fallback === undefined ? 'none' : String(fallback);
+    return `  ${toFlag(key).padEnd(28)}${env.padEnd(27)}${key.padEnd(25)}${help} (default ${shown})`;
+  }),
+].join('\n');
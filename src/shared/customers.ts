@@ -0,0 +1,292 @@
+/**
+ * Customer analytics: repeat purchases, monthly cohorts and RFM segments
+ *
+ * Works like the drill-down: the last counted version of every order is
+ * remembered, so a refund or cancellation takes back what the paid
+ * version added. Per customer it keeps first and last order time, order
+ * count and net spend; segments and cohorts are derived from those when a
+ * snapshot is taken. Only paid orders count. Orders settle after the
+ * ledger's horizon (`settleAfterMs`) and are then only part of their
+ * customer's stats.
+ */
+
+import type { Order, CustomerAnalytics, RfmSegment } from './types';
+import { lineRevenue } from './aggregation';
+import { settleOpen, type SettleOptions } from './ledger';
+
+/**
+ * Serializable: the stats of every customer, with the first and last event
+ * time (ms) of its settled orders, and every open counted order
+ */
+export type CustomerState = {
+  customers: ReadonlyArray<readonly [
+    customerId: string,
+    orders: number,
+    net: number,
+    settled: readonly [first: number, last: number] | null,
+    months: ReadonlyArray<readonly [month: number, orders: number]>,
+  ]>;
+  open: ReadonlyArray<readonly [orderId: string, customerId: string, at: number, net: number]>;
+};
+
+export type CustomerAnalyticsFold = {
+  apply: (order: Order) => void;
+  snapshot: (options?: SnapshotOptions) => CustomerAnalytics;
+  state: () => CustomerState;
+};
+
+export type SnapshotOptions = {
+  /** Customers in the leaderboard */
+  limit?: number;
+  /** Most recent acquisition months reported */
+  cohortMonths?: number;
+};
+
+// --- RFM scoring -------------------------------------------------------------
+
+/** Recency, frequency and monetary scores, 1 (lowest fifth) to 5 (highest); `f` is 1 for one order */
+export type RfmScores = { r: number; f: number; m: number };
+
+// First match wins
+const SEGMENT_RULES: ReadonlyArray<readonly [RfmSegment, (scores: RfmScores) => boolean]> = [
+  ['champions', ({ r, f, m }) => r >= 4 && f >= 4 && m >= 4],
+  ['loyal', ({ r, f }) => r >= 3 && f >= 4],
+  ['new', ({ r, f }) => r >= 4 && f === 1],
+  ['promising', ({ r }) => r >= 4],
+  ['at-risk', ({ r, f }) => r <= 2 && f >= 3],
+  ['hibernating', ({ r }) => r <= 2],
+  ['needs-attention', () => true],
+];
+
+export const RFM_SEGMENTS: ReadonlyArray<RfmSegment> = SEGMENT_RULES.map(([segment]) => segment);
+
+export const rfmSegment = (scores: RfmScores): RfmSegment =>
+  SEGMENT_RULES.find(([, matches]) => matches(scores))![0];
+
+/**
+ * Score by mid-rank: ties share the average position of their group, so
+ * when most customers ordered once they all land in the same, low fifth
+ */
+const quintiles = (values: ReadonlyArray<number>) => {
+  const sorted = Float64Array.from(values).sort();
+  const firstAbove = (value: number, orEqual: boolean): number => {
+    let lo = 0;
+    let hi = sorted.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (sorted[mid]! < value || (orEqual && sorted[mid] === value)) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+  return (value: number): number => {
+    const rank = (firstAbove(value, false) + firstAbove(value, true)) / 2;
+    return 1 + Math.min(4, Math.floor((5 * rank) / sorted.length));
+  };
+};
+
+// --- Internals ---------------------------------------------------------------
+
+type Counted = { customerId: string; at: number; net: number };
+
+type CustomerStats = {
+  open: Set<string>;             // open order ids
+  orders: number;                // open and settled
+  net: number;
+  first: number;
+  last: number;
+  settledFirst: number;
+  settledLast: number;
+  months: Map<number, number>;   // month index -> paid orders in it
+};
+
+const monthIndex = (time: number): number => {
+  const date = new Date(time);
+  return date.getUTCFullYear() * 12 + date.getUTCMonth();
+};
+
+const monthLabel = (index: number): string =>
+  `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+
+const countedOf = (order: Order): Counted | undefined =>
+  order.status === 'paid'
+    ? {
+        customerId: order.customerId,
+        at: Date.parse(order.createdAt),
+        net: order.items.reduce((sum, item) => sum + lineRevenue(order, item), 0),
+      }
+    : undefined;
+
+// --- Fold --------------------------------------------------------------------
+
+const emptyStats = (): CustomerStats => ({
+  open: new Set(),
+  orders: 0,
+  net: 0,
+  first: Infinity,
+  last: -Infinity,
+  settledFirst: Infinity,
+  settledLast: -Infinity,
+  months: new Map(),
+});
+
+/**
+ * Mutable, like `createCategoryBreakdown`; pass `state` from a checkpoint to resume.
+ * Memory grows with the number of customers, plus the open orders.
+ */
+export const createCustomerAnalytics = (
+  state?: CustomerState,
+  { settleAfterMs = Infinity }: SettleOptions = {},
+): CustomerAnalyticsFold => {
+  const counted = new Map<string, Counted>();   // open paid orders, by id
+  const customers = new Map<string, CustomerStats>();
+  let newest = -Infinity;
+
+  const add = (orderId: string, order: Counted) => {
+    const stats = customers.get(order.customerId) ?? emptyStats();
+    const month = monthIndex(order.at);
+    stats.open.add(orderId);
+    stats.orders++;
+    stats.net += order.net;
+    stats.first = Math.min(stats.first, order.at);
+    stats.last = Math.max(stats.last, order.at);
+    stats.months.set(month, (stats.months.get(month) ?? 0) + 1);
+    customers.set(order.customerId, stats);
+    counted.set(orderId, order);
+    newest = Math.max(newest, order.at);
+  };
+
+  const remove = (orderId: string, order: Counted) => {
+    const stats = customers.get(order.customerId)!;
+    const month = monthIndex(order.at);
+    counted.delete(orderId);
+    stats.open.delete(orderId);
+    stats.orders--;
+    if (stats.orders === 0) {
+      customers.delete(order.customerId);
+      return;
+    }
+    stats.net -= order.net;
+    const left = (stats.months.get(month) ?? 0) - 1;
+    if (left > 0) stats.months.set(month, left);
+    else stats.months.delete(month);
+    // Only when this order was the first or the last: look at the remaining ones
+    if (order.at === stats.first || order.at === stats.last) {
+      const times = stats.open.values().map(id => counted.get(id)!.at).toArray();
+      stats.first = times.reduce((a, b) => Math.min(a, b), stats.settledFirst);
+      stats.last = times.reduce((a, b) => Math.max(a, b), stats.settledLast);
+    }
+  };
+
+  // A settled order stays in its customer's stats; only its time bounds are kept
+  const settle = ({ customerId, at }: Counted, orderId: string) => {
+    const stats = customers.get(customerId)!;
+    stats.open.delete(orderId);
+    stats.settledFirst = Math.min(stats.settledFirst, at);
+    stats.settledLast = Math.max(stats.settledLast, at);
+  };
+
+  const apply = (order: Order) => {
+    const at = Date.parse(order.createdAt);
+    const before = counted.get(order.id);
+    if (!before && at < newest - settleAfterMs) return;
+    newest = Math.max(newest, at);
+    if (before) remove(order.id, before);
+    const after = countedOf(order);
+    if (after) add(order.id, after);
+    settleOpen(counted, newest - settleAfterMs, settle);
+  };
+
+  for (const [customerId, orders, net, settled, months] of state?.customers ?? []) {
+    customers.set(customerId, {
+      ...emptyStats(),
+      orders,
+      net,
+      first: settled?.[0] ?? Infinity,
+      last: settled?.[1] ?? -Infinity,
+      settledFirst: settled?.[0] ?? Infinity,
+      settledLast: settled?.[1] ?? -Infinity,
+      months: new Map(months),
+    });
+  }
+  for (const [orderId, customerId, at, net] of state?.open ?? []) {
+    const stats = customers.get(customerId)!;
+    stats.open.add(orderId);
+    stats.first = Math.min(stats.first, at);
+    stats.last = Math.max(stats.last, at);
+    counted.set(orderId, { customerId, at, net });
+    newest = Math.max(newest, at);
+  }
+
+  const snapshot = ({ limit = 10, cohortMonths = 12 }: SnapshotOptions = {}): CustomerAnalytics => {
+    const all = customers.entries().toArray();
+    const recency = quintiles(all.map(([, s]) => s.last));   // later last order = more recent
+    const frequency = quintiles(all.map(([, s]) => s.orders));
+    const monetary = quintiles(all.map(([, s]) => s.net));
+    // A single order is never frequent, however many customers stop there
+    const segmentOf = (stats: CustomerStats): RfmSegment => rfmSegment({
+      r: recency(stats.last),
+      f: stats.orders === 1 ? 1 : frequency(stats.orders),
+      m: monetary(stats.net),
+    });
+
+    const segments = new Map(RFM_SEGMENTS.map((segment): [RfmSegment, CustomerAnalytics['segments'][number]] =>
+      [segment, { segment, customers: 0, net: 0 }]));
+    const cohorts = new Map<number, { customers: number; active: number[] }>();
+    const lastMonth = Number.isFinite(newest) ? monthIndex(newest) : 0;
+
+    for (const [, stats] of all) {
+      const segment = segments.get(segmentOf(stats))!;
+      segment.customers++;
+      segment.net += stats.net;
+
+      const cohort = monthIndex(stats.first);
+      if (cohort <= lastMonth - cohortMonths) continue;
+      const row = cohorts.get(cohort) ?? { customers: 0, active: Array<number>(lastMonth - cohort + 1).fill(0) };
+      row.customers++;
+      stats.months.keys().forEach(month => { row.active[month - cohort]!++; });
+      cohorts.set(cohort, row);
+    }
+
+    return {
+      asOf: Number.isFinite(newest) ? new Date(newest).toISOString() : undefined,
+      customers: customers.size,
+      repeatCustomers: all.filter(([, s]) => s.orders > 1).length,
+      segments: [...segments.values()],
+      cohorts: cohorts.entries()
+        .toArray()
+        .toSorted(([a], [b]) => a - b)
+        .map(([cohort, row]) => ({ cohort: monthLabel(cohort), ...row })),
+      topCustomers: all
+        .toSorted((a, b) => b[1].net - a[1].net)
+        .slice(0, limit)
+        .map(([customerId, stats]) => ({
+          customerId,
+          net: stats.net,
+          orders: stats.orders,
+          firstOrderAt: new Date(stats.first).toISOString(),
+          lastOrderAt: new Date(stats.last).toISOString(),
+          segment: segmentOf(stats),
+        })),
+    };
+  };
+
+  return {
+    apply,
+    snapshot,
+    state: () => ({
+      customers: customers.entries()
+        .map(([customerId, { orders, net, settledFirst, settledLast, months }]) => [
+          customerId,
+          orders,
+          net,
+          Number.isFinite(settledFirst) ? [settledFirst, settledLast] as const : null,
+          [...months],
+        ] as const)
+        .toArray(),
+      open: counted.entries()
+        .map(([orderId, { customerId, at, net }]) => [orderId, customerId, at, net] as const)
+        .toArray(),
+    }),
+  };
+};
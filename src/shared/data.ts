@@ -1,4 +1,5 @@
 import type { Order } from './types';
+import { delay } from './abort';
 
 // --- Mock Data Generators ---------------------------------------------------
 
@@ -42,13 +43,10 @@ export function* orders(): IterableIterator<Order> {
 }
 
 /**
- * Async paginated order generator for Steps 2-4
- * Simulates fetching data from a paginated API
+ * Pages served by the simulated paginated API
  */
-export async function* fetchOrderPages(): AsyncIterable<Order[]> {
-  console.log('📄 Fetching page 1...');
-  await new Promise(resolve => setTimeout(resolve, 100));
-  yield [
+const orderPages: ReadonlyArray<Order[]> = [
+  [
     {
       id: 'o1', customerId: 'c1', createdAt: '2025-08-01T10:00:00Z', status: 'paid',
       items: [
@@ -63,11 +61,8 @@ export async function* fetchOrderPages(): AsyncIterable<Order[]> {
         { sku: 'B2', qty: 1, unitPrice: 2500, category: 'books' },
       ],
     },
-  ];
-
-  console.log('📄 Fetching page 2...');
-  await new Promise(resolve => setTimeout(resolve, 100));
-  yield [
+  ],
+  [
     {
       id: 'o3', customerId: 'c3', createdAt: '2025-08-03T12:00:00Z', status: 'pending',
       items: [ { sku: 'X', qty: 10, unitPrice: 100, category: 'food' } ],
@@ -79,11 +74,8 @@ export async function* fetchOrderPages(): AsyncIterable<Order[]> {
         { sku: 'F5', qty: 2, unitPrice: 800, category: 'food' },
       ],
     },
-  ];
-
-  console.log('📄 Fetching page 3...');
-  await new Promise(resolve => setTimeout(resolve, 100));
-  yield [
+  ],
+  [
     {
       id: 'o5', customerId: 'c5', createdAt: '2025-08-05T16:00:00Z', status: 'paid',
       items: [
@@ -91,5 +83,22 @@ export async function* fetchOrderPages(): AsyncIterable<Order[]> {
         { sku: 'T2', qty: 1, unitPrice: 15000, category: 'tools' },
       ],
     },
-  ];
+  ],
+];
+
+/**
+ * Async paginated order generator for Steps 2-4
+ * Simulates fetching data from a paginated API; `fromPage` is the cursor
+ * (0-based page number) to resume from, `signal` cancels the fetch
+ */
+export async function* fetchOrderPages(
+  fromPage = 0,
+  { signal }: { signal?: AbortSignal } = {},
+): AsyncIterable<Order[]> {
+  for (let page = fromPage; page < orderPages.length; page++) {
+    signal?.throwIfAborted();
+    console.log(`📄 Fetching page ${page + 1}...`);
+    await delay(100, signal);
+    yield structuredClone(orderPages[page]!);
+  }
 }
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffSnapshot, applyDelta, isEmptyDelta } from './deltas';
+
+type Row = { category: string; sum: number };
+
+const keyOf = (row: Row) => row.category;
+const bySum = (a: Row, b: Row) => b.sum - a.sum;
+
+const prev: Row[] = [
+  { category: 'books', sum: 300 },
+  { category: 'tools', sum: 200 },
+  { category: 'food', sum: 100 },
+];
+
+test('applying the delta between two snapshots reproduces the second one', () => {
+  const next: Row[] = [
+    { category: 'food', sum: 500 },
+    { category: 'books', sum: 300 },
+    { category: 'garden', sum: 150 },
+  ];
+  const delta = diffSnapshot(prev, next, keyOf);
+
+  assert.deepEqual(delta, {
+    changed: [{ category: 'food', sum: 500 }],
+    added: [{ category: 'garden', sum: 150 }],
+    removed: ['tools'],
+  });
+  assert.deepEqual(applyDelta(prev, delta, keyOf, bySum), next);
+});
+
+test('an unchanged snapshot gives an empty delta that leaves the rows as they are', () => {
+  const delta = diffSnapshot(prev, structuredClone(prev), keyOf);
+
+  assert.ok(isEmptyDelta(delta));
+  assert.deepEqual(applyDelta(prev, delta, keyOf, bySum), prev);
+});
+
+test('ties keep their previous order after a delta', () => {
+  const next: Row[] = [
+    { category: 'books', sum: 300 },
+    { category: 'tools', sum: 300 },
+    { category: 'food', sum: 100 },
+  ];
+
+  assert.deepEqual(applyDelta(prev, diffSnapshot(prev, next, keyOf), keyOf, bySum), next);
+});
@@ -0,0 +1,53 @@
+/**
+ * Snapshot deltas for the live feed
+ *
+ * After the first full snapshot, the server only sends what changed between
+ * consecutive snapshots. Deltas carry a sequence number; a client that sees
+ * a gap asks for a resync and gets a full snapshot again. Both sides use the
+ * same pure functions, so applying a delta always reproduces the snapshot.
+ */
+
+export type SnapshotDelta<E> = {
+  changed: E[];      // present before and after, with different values
+  added: E[];        // new in this snapshot
+  removed: string[]; // keys no longer present
+};
+
+/**
+ * Entries whose JSON encodings differ are considered changed
+ */
+export const diffSnapshot = <E>(
+  prev: ReadonlyArray<E>,
+  next: ReadonlyArray<E>,
+  keyOf: (entry: E) => string,
+): SnapshotDelta<E> => {
+  const before = new Map(prev.map(e => [keyOf(e), e] as const));
+  const after = new Set(next.map(keyOf));
+
+  return {
+    changed: next.filter(e => before.has(keyOf(e)) && JSON.stringify(before.get(keyOf(e))) !== JSON.stringify(e)),
+    added: next.filter(e => !before.has(keyOf(e))),
+    removed: prev.map(keyOf).filter(key => !after.has(key)),
+  };
+};
+
+/**
+ * Apply a delta and re-rank; ties keep their previous order
+ */
+export const applyDelta = <E>(
+  rows: ReadonlyArray<E>,
+  delta: SnapshotDelta<E>,
+  keyOf: (entry: E) => string,
+  rank: (a: E, b: E) => number,
+): E[] => {
+  const updates = new Map([...delta.changed, ...delta.added].map(e => [keyOf(e), e] as const));
+  const removed = new Set(delta.removed);
+
+  return [
+    ...rows.filter(r => !removed.has(keyOf(r))).map(r => updates.get(keyOf(r)) ?? r),
+    ...delta.added,
+  ].toSorted(rank);
+};
+
+export const isEmptyDelta = <E>({ changed, added, removed }: SnapshotDelta<E>): boolean =>
+  changed.length === 0 && added.length === 0 && removed.length === 0;
@@ -0,0 +1,192 @@
+/**
+ * Per-category drill-down: top SKUs, top customers, order count and AOV
+ *
+ * Works like the ledger: the last counted contribution of every order is
+ * remembered, so a later version of an order (refund, cancellation)
+ * replaces what the earlier one added instead of being counted on top.
+ * Orders settle after the ledger's horizon (`settleAfterMs`) and are then
+ * only part of the per-category stats.
+ * Only paid orders count; amounts are net revenue in reporting minor units.
+ */
+
+import type { Order, CategoryDetail } from './types';
+import { lineRevenue } from './aggregation';
+import { settleOpen, type SettleOptions } from './ledger';
+
+/**
+ * Serializable: the stats of every category, and for every open order its
+ * event time (ms), customer and what it added to each category
+ */
+export type BreakdownState = {
+  categories: ReadonlyArray<readonly [
+    category: string,
+    net: number,
+    orders: number,
+    units: number,
+    skus: ReadonlyArray<readonly [sku: string, net: number, qty: number]>,
+    customers: ReadonlyArray<readonly [customerId: string, net: number, orders: number]>,
+  ]>;
+  open: ReadonlyArray<readonly [
+    orderId: string,
+    at: number,
+    customerId: string,
+    categories: ReadonlyArray<readonly [category: string, skus: ReadonlyArray<readonly [sku: string, net: number, qty: number]>]>,
+  ]>;
+};
+
+export type CategoryBreakdown = {
+  apply: (order: Order) => void;
+  /** `orders` counts paid orders with a line in the category; `aov` is net / orders */
+  detail: (category: string, limit: number) => CategoryDetail;
+  state: () => BreakdownState;
+};
+
+// --- Internals ---------------------------------------------------------------
+
+type Contribution = {
+  at: number;
+  customerId: string;
+  categories: Map<string, Map<string, { net: number; qty: number }>>;  // category -> sku -> amounts
+};
+
+type CategoryStats = {
+  net: number;
+  orders: number;
+  units: number;
+  skus: Map<string, { net: number; qty: number }>;
+  customers: Map<string, { net: number; orders: number }>;
+};
+
+const contributionOf = (order: Order, at: number): Contribution => {
+  const categories = new Map<string, Map<string, { net: number; qty: number }>>();
+  if (order.status === 'paid') {
+    for (const item of order.items) {
+      const skus = categories.get(item.category) ?? new Map();
+      const prev = skus.get(item.sku) ?? { net: 0, qty: 0 };
+      skus.set(item.sku, { net: prev.net + lineRevenue(order, item), qty: prev.qty + item.qty });
+      categories.set(item.category, skus);
+    }
+  }
+  return { at, customerId: order.customerId, categories };
+};
+
+const emptyStats = (): CategoryStats => ({ net: 0, orders: 0, units: 0, skus: new Map(), customers: new Map() });
+
+// Entries that drop back to zero are removed, so removed orders leave no trace
+const bump = <V extends Record<string, number>>(map: Map<string, V>, key: string, delta: V) => {
+  const prev = map.get(key);
+  const next = Object.fromEntries(
+    Object.entries(delta).map(([field, value]) => [field, (prev?.[field] ?? 0) + value]),
+  ) as V;
+  if (Object.values(next).every(v => v === 0)) map.delete(key);
+  else map.set(key, next);
+};
+
+const topBy = <V extends { net: number }>(map: Map<string, V>, limit: number) =>
+  map.entries()
+    .toArray()
+    .toSorted((a, b) => b[1].net - a[1].net)
+    .values()
+    .take(limit)
+    .toArray();
+
+// --- Breakdown ---------------------------------------------------------------
+
+/**
+ * Mutable, like `createLedger`; pass `state` from a checkpoint to resume
+ */
+export const createCategoryBreakdown = (
+  state?: BreakdownState,
+  { settleAfterMs = Infinity }: SettleOptions = {},
+): CategoryBreakdown => {
+  const last = new Map<string, Contribution>();   // open orders
+  const stats = new Map<string, CategoryStats>();
+  let newest = -Infinity;
+
+  const add = ({ customerId, categories }: Contribution, sign: 1 | -1) => {
+    for (const [category, skus] of categories) {
+      const s = stats.get(category) ?? emptyStats();
+      const net = skus.values().reduce((sum, v) => sum + v.net, 0);
+      const qty = skus.values().reduce((sum, v) => sum + v.qty, 0);
+      s.net += sign * net;
+      s.orders += sign;
+      s.units += sign * qty;
+      for (const [sku, v] of skus) bump(s.skus, sku, { net: sign * v.net, qty: sign * v.qty });
+      bump(s.customers, customerId, { net: sign * net, orders: sign });
+      if (s.orders === 0) stats.delete(category);
+      else stats.set(category, s);
+    }
+  };
+
+  const apply = (order: Order) => {
+    const at = Date.parse(order.createdAt);
+    const before = last.get(order.id);
+    if (!before && at < newest - settleAfterMs) return;
+    if (before) add(before, -1);
+    const after = contributionOf(order, before?.at ?? at);
+    add(after, 1);
+    last.set(order.id, after);
+    newest = Math.max(newest, at);
+    settleOpen(last, newest - settleAfterMs);
+  };
+
+  for (const [category, net, orders, units, skus, customers] of state?.categories ?? []) {
+    stats.set(category, {
+      net,
+      orders,
+      units,
+      skus: new Map(skus.map(([sku, net, qty]) => [sku, { net, qty }] as const)),
+      customers: new Map(customers.map(([customerId, net, orders]) => [customerId, { net, orders }] as const)),
+    });
+  }
+  for (const [orderId, at, customerId, categories] of state?.open ?? []) {
+    last.set(orderId, {
+      at,
+      customerId,
+      categories: new Map(categories.map(([category, skus]) => [
+        category,
+        new Map(skus.map(([sku, net, qty]) => [sku, { net, qty }] as const)),
+      ] as const)),
+    });
+    newest = Math.max(newest, at);
+  }
+
+  return {
+    apply,
+    detail: (category, limit) => {
+      const s = stats.get(category) ?? emptyStats();
+      return {
+        category,
+        net: s.net,
+        orders: s.orders,
+        units: s.units,
+        aov: s.orders > 0 ? Math.round(s.net / s.orders) : 0,
+        topSkus: topBy(s.skus, limit).map(([key, { net, qty }]) => ({ key, sum: net, qty })),
+        topCustomers: topBy(s.customers, limit).map(([key, { net, orders }]) => ({ key, sum: net, orders })),
+      };
+    },
+    state: () => ({
+      categories: stats.entries()
+        .map(([category, { net, orders, units, skus, customers }]) => [
+          category,
+          net,
+          orders,
+          units,
+          skus.entries().map(([sku, v]) => [sku, v.net, v.qty] as const).toArray(),
+          customers.entries().map(([customerId, v]) => [customerId, v.net, v.orders] as const).toArray(),
+        ] as const)
+        .toArray(),
+      open: last.entries()
+        .filter(([, { categories }]) => categories.size > 0)
+        .map(([id, { at, customerId, categories }]) => [
+          id,
+          at,
+          customerId,
+          categories.entries()
+            .map(([category, skus]) => [category, skus.entries().map(([sku, { net, qty }]) => [sku, net, qty] as const).toArray()] as const)
+            .toArray(),
+        ] as const)
+        .toArray(),
+    }),
+  };
+};
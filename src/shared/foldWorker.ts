@@ -0,0 +1,11 @@
+/**
+ * Worker entry of `createFoldPool()`: folds the pages it is sent
+ */
+
+import { workerData } from 'node:worker_threads';
+import { handleTasks } from './workers';
+import { foldTask, type FoldWorkerData } from './parallel';
+import { useRateTable } from './money';
+
+useRateTable((workerData as FoldWorkerData).rates);
+handleTasks(foldTask);
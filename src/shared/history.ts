@@ -0,0 +1,114 @@
+/**
+ * Bounded on-disk snapshot history
+ *
+ * Snapshots are appended to an NDJSON file, one per line, so a crash loses
+ * at most the line being written. The newest `maxEntries` are also kept in
+ * memory to answer range queries; once the file holds twice that many it is
+ * compacted (rewritten atomically) down to the in-memory window.
+ */
+
+import { appendFile, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+export type Recorded = { seq: number; at: string };
+
+export type HistoryRange = {
+  fromSeq?: number;  // inclusive
+  toSeq?: number;    // inclusive
+  from?: string;     // ISO timestamp, inclusive
+  to?: string;       // ISO timestamp, inclusive
+  limit?: number;    // newest entries within the range
+};
+
+export type HistoryLog<T extends Recorded> = {
+  append: (entry: T) => Promise<void>;
+  /** Matching entries in sequence order */
+  range: (range?: HistoryRange) => T[];
+  /** Forget entries past `seq`, e.g. ones written after the last checkpoint */
+  discardAfter: (seq: number) => Promise<void>;
+  bounds: () => { oldestSeq?: number; latestSeq?: number; size: number };
+  /** Resolves once every write queued so far has finished (or failed) */
+  flush: () => Promise<void>;
+};
+
+export type HistoryOptions = {
+  path: string;
+  maxEntries?: number;
+};
+
+export const MAX_HISTORY_RANGE = 1000;
+
+const readEntries = async <T>(path: string): Promise<T[]> => {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw err;
+  }
+  // A torn last line (crash mid-append) is skipped, not fatal
+  return text.split('\n').flatMap(line => {
+    if (line.trim() === '') return [];
+    try { return [JSON.parse(line) as T]; } catch { return []; }
+  });
+};
+
+const toNdjson = (entries: ReadonlyArray<unknown>) =>
+  entries.map(e => `${JSON.stringify(e)}\n`).join('');
+
+/**
+ * Load the existing log (if any) and return a handle that keeps appending
+ */
+export const openHistory = async <T extends Recorded>({ path, maxEntries = 1000 }: HistoryOptions): Promise<HistoryLog<T>> => {
+  await mkdir(dirname(path), { recursive: true });
+  const onDisk = await readEntries<T>(path);
+  let entries = onDisk.slice(-maxEntries);
+  let linesOnDisk = onDisk.length;
+  let writing: Promise<void> = Promise.resolve();
+
+  // Serialized like checkpoint writes: appends never interleave with a rewrite
+  const enqueueWrite = (write: () => Promise<void>): Promise<void> => {
+    writing = writing.catch(() => {}).then(write);
+    return writing;
+  };
+
+  const rewrite = () => {
+    const snapshot = entries;
+    linesOnDisk = snapshot.length;
+    return enqueueWrite(async () => {
+      const tmp = `${path}.${process.pid}.tmp`;
+      await writeFile(tmp, toNdjson(snapshot), 'utf8');
+      await rename(tmp, path);
+    });
+  };
+
+  if (linesOnDisk > entries.length) await rewrite();
+
+  return {
+    append: entry => {
+      entries = [...entries, entry].slice(-maxEntries);
+      linesOnDisk++;
+      if (linesOnDisk >= 2 * maxEntries) return rewrite();
+      return enqueueWrite(() => appendFile(path, toNdjson([entry]), 'utf8'));
+    },
+
+    range: ({ fromSeq = -Infinity, toSeq = Infinity, from, to, limit = MAX_HISTORY_RANGE } = {}) => {
+      const start = from === undefined ? -Infinity : Date.parse(from);
+      const end = to === undefined ? Infinity : Date.parse(to);
+      const matches = entries
+        .filter(e => e.seq >= fromSeq && e.seq <= toSeq)
+        .filter(e => Date.parse(e.at) >= start && Date.parse(e.at) <= end);
+      return matches.slice(Math.max(0, matches.length - Math.min(limit, MAX_HISTORY_RANGE)));
+    },
+
+    discardAfter: async seq => {
+      if (!entries.some(e => e.seq > seq)) return;
+      entries = entries.filter(e => e.seq <= seq);
+      await rewrite();
+    },
+
+    bounds: () => ({ oldestSeq: entries[0]?.seq, latestSeq: entries.at(-1)?.seq, size: entries.length }),
+
+    flush: () => writing.catch(() => {}),
+  };
+};
@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Order } from './types';
+import { createLedger, categoryLedger } from './ledger';
+
+const order = (id: string, status: Order['status'], createdAt = '2025-01-01T00:00:00Z'): Order => ({
+  id,
+  customerId: 'c1',
+  createdAt,
+  status,
+  items: [
+    { sku: 'a', category: 'books', qty: 2, unitPrice: 100 },
+    { sku: 'b', category: 'tools', qty: 1, unitPrice: 50 },
+  ],
+});
+
+test('a refund of a paid order keeps it as gross and moves its net to refunded', () => {
+  const ledger = createLedger(categoryLedger);
+  ledger.apply(order('o1', 'paid'));
+  const changes = ledger.apply(order('o1', 'refunded'));
+
+  assert.deepEqual(ledger.total('books'), { gross: 200, refunded: 200, net: 0 });
+  assert.deepEqual(ledger.total('tools'), { gross: 50, refunded: 50, net: 0 });
+  assert.deepEqual(changes, new Map([['books', -200], ['tools', -50]]));
+  assert.equal(ledger.orders(), 1);
+});
+
+test('pending and cancelled versions count nothing, a later paid version counts once', () => {
+  const ledger = createLedger(categoryLedger);
+  ledger.apply(order('o1', 'pending'));
+  ledger.apply(order('o1', 'paid'));
+  ledger.apply(order('o1', 'paid'));
+  ledger.apply(order('o2', 'pending'));
+  ledger.apply(order('o2', 'cancelled'));
+
+  assert.deepEqual(ledger.total('books'), { gross: 200, refunded: 0, net: 200 });
+  assert.equal(ledger.orders(), 2);
+});
+
+test('a paid order that is cancelled is taken back entirely', () => {
+  const ledger = createLedger(categoryLedger);
+  ledger.apply(order('o1', 'paid'));
+  ledger.apply(order('o1', 'cancelled'));
+
+  assert.deepEqual(ledger.total('books'), { gross: 0, refunded: 0, net: 0 });
+});
+
+test('a settled order is no longer reconciled', () => {
+  const ledger = createLedger(categoryLedger, undefined, { settleAfterMs: 60_000 });
+  ledger.apply(order('o1', 'paid', '2025-01-01T00:00:00Z'));
+  ledger.apply(order('o2', 'paid', '2025-01-01T00:05:00Z'));
+  ledger.apply(order('o1', 'refunded', '2025-01-01T00:00:00Z'));
+
+  assert.deepEqual(ledger.total('books'), { gross: 400, refunded: 0, net: 400 });
+  assert.equal(ledger.orders(), 2);
+});
+
+test('a ledger resumed from its state reconciles open orders', () => {
+  const first = createLedger(categoryLedger);
+  first.apply(order('o1', 'paid'));
+  const resumed = createLedger(categoryLedger, structuredClone(first.state()));
+  resumed.apply(order('o1', 'refunded'));
+
+  assert.deepEqual(resumed.total('books'), { gross: 200, refunded: 200, net: 0 });
+  assert.equal(resumed.orders(), 1);
+});
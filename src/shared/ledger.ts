@@ -0,0 +1,310 @@
+/**
+ * Order-state-aware revenue ledger
+ *
+ * Orders are keyed by `Order.id`; a later version of the same order is an
+ * update, not a new sale. Each version's contribution is derived from its
+ * status alone, and the ledger applies the difference to what the previous
+ * version contributed. That is how `pending → paid → refunded` across pages
+ * ends up as gross revenue with a matching refund instead of being dropped.
+ *
+ * Remembering every order would grow without bound, so an order settles once
+ * it is `settleAfterMs` (event time) behind the newest one: what it counted
+ * stays in the totals, but later versions of it are no longer reconciled.
+ */
+
+import type { Order, RankedSnapshot, RevenueTotals, IntakeStats } from './types';
+import type { Aggregation, StreamOptions, Ranker } from './aggregation';
+import { byCategory, lineRevenue, exactRanker, mergeTotals } from './aggregation';
+import { partitionPage, emptyIntakeStats, type DeadLetterSink } from './validation';
+import type { Tagged } from './merge';
+import { abortable } from './abort';
+
+/** Grouping key and measure; which orders count is decided by status */
+export type LedgerAggregation<K = string> = Pick<Aggregation<K>, 'key' | 'measure'>;
+
+export const categoryLedger: LedgerAggregation<string> = { key: byCategory, measure: lineRevenue };
+
+export const zeroRevenue: RevenueTotals = { gross: 0, refunded: 0, net: 0 };
+
+// --- Pure helpers ------------------------------------------------------------
+
+const addRevenue = (a: RevenueTotals, b: RevenueTotals, sign: 1 | -1 = 1): RevenueTotals => ({
+  gross: a.gross + sign * b.gross,
+  refunded: a.refunded + sign * b.refunded,
+  net: a.net + sign * b.net,
+});
+
+/**
+ * What one version of an order contributes, per key.
+ * `paid` counts as gross; `refunded` was paid once, so it counts as gross
+ * and as refunded (net zero); `pending` and `cancelled` contribute nothing.
+ */
+export const orderContribution = <K>(
+  aggregation: LedgerAggregation<K>,
+  order: Order,
+): Map<K, RevenueTotals> => {
+  const counted = order.status === 'paid' || order.status === 'refunded';
+  const refunded = order.status === 'refunded';
+  if (!counted) return new Map();
+
+  return order.items.reduce((acc, item) => {
+    const value = aggregation.measure(order, item);
+    const key = aggregation.key(order, item);
+    return acc.set(key, addRevenue(acc.get(key) ?? zeroRevenue, {
+      gross: value,
+      refunded: refunded ? value : 0,
+      net: refunded ? 0 : value,
+    }));
+  }, new Map<K, RevenueTotals>());
+};
+
+/**
+ * Sum of several ledgers' totals, e.g. the combined view over one ledger per source
+ */
+export const combineTotals = <K>(ledgers: Iterable<Ledger<K>>): Map<K, RevenueTotals> =>
+  [...ledgers].reduce((acc, ledger) => {
+    ledger.totals().forEach((value, key) => acc.set(key, addRevenue(acc.get(key) ?? zeroRevenue, value)));
+    return acc;
+  }, new Map<K, RevenueTotals>());
+
+/**
+ * Keep the top N entries by net revenue
+ */
+export const topNByNet = <K>(totals: Map<K, RevenueTotals>, n: number): RankedSnapshot<K, RevenueTotals> =>
+  totals.entries()
+    .toArray()
+    .toSorted((a, b) => b[1].net - a[1].net)
+    .values()
+    .take(n)
+    .toArray();
+
+// --- Settling ----------------------------------------------------------------
+
+/**
+ * How long an order stays open for updates; shared by the folds that
+ * reconcile per order (ledger, drill-down, customer analytics)
+ */
+export type SettleOptions = {
+  /**
+   * Event time (ms) behind the newest order after which an order settles.
+   * A version of a settled order, or an order that arrives that late, is
+   * ignored. Default: never, so memory grows with the number of orders.
+   */
+  settleAfterMs?: number;
+};
+
+/**
+ * Forget open orders whose event time is before `cutoff`. Orders are kept
+ * in first-seen order, which follows event time closely enough that the
+ * scan can stop at the first one still inside the horizon.
+ */
+export const settleOpen = <V extends { at: number }>(
+  open: Map<string, V>,
+  cutoff: number,
+  onSettle: (entry: V, id: string) => void = () => {},
+): void => {
+  for (const [id, entry] of open) {
+    if (entry.at >= cutoff) return;
+    open.delete(id);
+    onSettle(entry, id);
+  }
+};
+
+// --- Ledger ------------------------------------------------------------------
+
+/**
+ * Serializable ledger contents: the totals, how many orders they count, and
+ * the last counted contribution (with its event time) of every open order
+ */
+export type LedgerState<K = string> = {
+  totals: ReadonlyArray<readonly [K, RevenueTotals]>;
+  orders: number;
+  open: ReadonlyArray<readonly [id: string, at: number, contribution: ReadonlyArray<readonly [K, RevenueTotals]>]>;
+};
+
+export type Ledger<K> = {
+  /** Apply one order version; returns the change in net revenue of every key it touched */
+  apply: (order: Order) => Map<K, number>;
+  totals: () => Map<K, RevenueTotals>;
+  /** Totals of one key */
+  total: (key: K) => RevenueTotals;
+  /** Number of distinct orders seen, open or settled */
+  orders: () => number;
+  state: () => LedgerState<K>;
+};
+
+type OpenOrder<K> = { at: number; contribution: Map<K, RevenueTotals> };
+
+/**
+ * Mutable ledger kept in a closure: it has to remember the last counted
+ * contribution of every open order, so copying it per page would be quadratic.
+ * Pass a `state` from a checkpoint to pick up where a previous run stopped.
+ */
+export const createLedger = <K>(
+  aggregation: LedgerAggregation<K>,
+  state?: LedgerState<K>,
+  { settleAfterMs = Infinity }: SettleOptions = {},
+): Ledger<K> => {
+  const totals = new Map(state?.totals);
+  const open = new Map((state?.open ?? []).map(([id, at, contribution]): [string, OpenOrder<K>] =>
+    [id, { at, contribution: new Map(contribution) }]));
+  let orders = state?.orders ?? 0;
+  let newest = open.values().reduce((max, { at }) => Math.max(max, at), -Infinity);
+
+  const apply = (order: Order): Map<K, number> => {
+    const at = Date.parse(order.createdAt);
+    const before = open.get(order.id);
+    if (!before && at < newest - settleAfterMs) return new Map();
+    const after = orderContribution(aggregation, order);
+    const previous = before?.contribution ?? new Map<K, RevenueTotals>();
+    const touched = new Set([...previous.keys(), ...after.keys()]);
+    const changes = new Map<K, number>();
+
+    for (const key of touched) {
+      const current = totals.get(key) ?? zeroRevenue;
+      const next = addRevenue(
+        addRevenue(current, previous.get(key) ?? zeroRevenue, -1),
+        after.get(key) ?? zeroRevenue,
+      );
+      totals.set(key, next);
+      changes.set(key, next.net - current.net);
+    }
+
+    if (!before) orders++;
+    open.set(order.id, { at: before?.at ?? at, contribution: after });
+    newest = Math.max(newest, at);
+    settleOpen(open, newest - settleAfterMs);
+    return changes;
+  };
+
+  return {
+    apply,
+    totals: () => new Map(totals),
+    total: key => totals.get(key) ?? zeroRevenue,
+    orders: () => orders,
+    state: () => ({
+      totals: [...totals],
+      orders,
+      open: open.entries()
+        .map(([id, { at, contribution }]) => [id, at, [...contribution]] as const)
+        .toArray(),
+    }),
+  };
+};
+
+// --- Rolling stream ----------------------------------------------------------
+
+export type RevenueSnapshotHandler<K> = (
+  snapshot: RankedSnapshot<K, RevenueTotals>,
+  pageIndex: number,
+  intake: IntakeStats,
+) => void;
+
+/**
+ * Rolling top-N by net revenue, reconciling status updates across pages
+ */
+export const streamNetRevenue = async <K>(
+  pages: AsyncIterable<ReadonlyArray<unknown>>,
+  aggregation: LedgerAggregation<K>,
+  limit: number,
+  onUpdate: RevenueSnapshotHandler<K>,
+  { deadLetter = () => {}, onPage = () => {}, resumeFrom, signal, ledger = createLedger(aggregation) }:
+    StreamOptions & { ledger?: Ledger<K> } = {},
+): Promise<Map<K, RevenueTotals>> => {
+  let intake = resumeFrom?.intake ?? emptyIntakeStats();
+  let pageIndex = resumeFrom?.pageIndex ?? 0;
+
+  for await (const page of abortable(pages, signal)) {
+    const { valid, rejected } = partitionPage(page, pageIndex);
+    rejected.forEach(deadLetter);
+    intake = {
+      accepted: intake.accepted + valid.length,
+      rejected: intake.rejected + rejected.length,
+    };
+
+    onPage(valid, pageIndex);
+    valid.forEach(ledger.apply);
+    onUpdate(topNByNet(ledger.totals(), limit), pageIndex++, intake);
+  }
+
+  return ledger.totals();
+};
+
+export const streamNetRevenueByCategory = (
+  pages: AsyncIterable<ReadonlyArray<unknown>>,
+  limit: number,
+  onUpdate: RevenueSnapshotHandler<string>,
+  options?: StreamOptions & { ledger?: Ledger<string> },
+): Promise<Map<string, RevenueTotals>> =>
+  streamNetRevenue(pages, categoryLedger, limit, onUpdate, options);
+
+// --- Several sources ---------------------------------------------------------
+
+/**
+ * Fold state of one source. Each source has its own ledger, so an order id
+ * only has to be unique within its feed; `cursor` is its next page.
+ */
+export type SourceFold<K> = { ledger: Ledger<K>; intake: IntakeStats; cursor: number };
+
+export type SourcePage = { source: string; index: number };
+
+export type SourceSnapshotHandler<K> = (
+  snapshot: RankedSnapshot<K, RevenueTotals>,  // all sources combined
+  page: SourcePage,
+  intake: IntakeStats,                         // all sources combined
+) => void;
+
+/**
+ * Rolling top-N by net revenue over pages merged from several sources
+ * (see `mergeSources`), emitting the combined snapshot after every page.
+ * Pass `folds` to resume, and to read the per-source ledgers as it runs.
+ *
+ * Which keys make the top N is decided by `ranker`, fed each page's change
+ * in net revenue; the reported totals are the ledgers' own. The exact ranker
+ * sorts every key per page, a Space-Saving sketch only its counters, at the
+ * price of approximate ranks (see `./sketches`).
+ */
+export const streamNetRevenueBySource = async <K>(
+  pages: AsyncIterable<Tagged<ReadonlyArray<unknown>>>,
+  aggregation: LedgerAggregation<K>,
+  limit: number,
+  onUpdate: SourceSnapshotHandler<K>,
+  { deadLetter = () => {}, onPage = () => {}, folds = new Map(), signal, ranker = exactRanker<K>() }: {
+    deadLetter?: DeadLetterSink;
+    /** Awaited before the page is counted, so a failure leaves the cursor on it */
+    onPage?: (orders: Order[], page: SourcePage) => void | Promise<void>;
+    folds?: Map<string, SourceFold<K>>;
+    signal?: AbortSignal;
+    /** A fresh ranker; it is seeded with the net totals of resumed `folds` */
+    ranker?: Ranker<K>;
+  } = {},
+): Promise<Map<K, RevenueTotals>> => {
+  const combinedTotal = (key: K): RevenueTotals =>
+    folds.values().reduce((acc, { ledger }) => addRevenue(acc, ledger.total(key)), zeroRevenue);
+  ranker.add(new Map(combineTotals(folds.values().map(f => f.ledger)).entries().map(([key, { net }]) => [key, net])));
+
+  const combinedIntake = (): IntakeStats => folds.values().reduce(
+    (acc, { intake }) => ({ accepted: acc.accepted + intake.accepted, rejected: acc.rejected + intake.rejected }),
+    emptyIntakeStats(),
+  );
+
+  for await (const { source, index, value } of abortable(pages, signal)) {
+    const fold = folds.get(source) ?? { ledger: createLedger(aggregation), intake: emptyIntakeStats(), cursor: 0 };
+    folds.set(source, fold);
+
+    const { valid, rejected } = partitionPage(value, index);
+    await onPage(valid, { source, index });
+    rejected.forEach(rejection => deadLetter({ ...rejection, source }));
+    fold.intake = {
+      accepted: fold.intake.accepted + valid.length,
+      rejected: fold.intake.rejected + rejected.length,
+    };
+    fold.cursor = index + 1;
+
+    ranker.add(valid.map(order => fold.ledger.apply(order)).reduce(mergeTotals, new Map()));
+    const snapshot = ranker.top(limit).map(([key]) => [key, combinedTotal(key)] as const);
+    onUpdate(snapshot, { source, index }, combinedIntake());
+  }
+
+  return combineTotals(folds.values().map(f => f.ledger));
+};
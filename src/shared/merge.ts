@@ -0,0 +1,125 @@
+/**
+ * Merge several async sources into one stream, tagged by source
+ *
+ * Every source has at most one `next()` in flight, and whichever settles
+ * first is yielded first, so a slow feed never holds back a fast one.
+ * Pages of one source keep their order. A source that throws is marked
+ * failed and dropped while the rest carry on; once every source has
+ * finished, the merged stream rejects with an `AggregateError` of the
+ * failures, so the caller can retry just those.
+ */
+
+import type { SourceStatus } from './types';
+import { raceAbort } from './abort';
+
+/** A value together with the source it came from and its position there */
+export type Tagged<T> = { source: string; index: number; value: T };
+
+export type MergeOptions = {
+  /** Called on every status change, and after every page */
+  onStatus?: (status: SourceStatus) => void;
+  /** Report a source as `stalled` when a page takes longer than this (ms) */
+  stallAfterMs?: number;
+  /** Index of each source's first page, when resuming (default 0) */
+  fromIndex?: Readonly<Record<string, number>>;
+  /** Stop waiting for pages and reject with the abort reason */
+  signal?: AbortSignal;
+};
+
+// One source's iterator and bookkeeping; `pending` is its `next()` in flight
+type Feed<T> = {
+  source: string;
+  iterator: AsyncIterator<T>;
+  index: number;
+  status: SourceStatus;
+  pending?: Promise<Settled<T>>;
+  stallTimer?: ReturnType<typeof setTimeout>;
+};
+
+// Never rejects: a failed `next()` settles as `error`
+type Settled<T> =
+  | { feed: Feed<T>; result: IteratorResult<T> }
+  | { feed: Feed<T>; error: unknown };
+
+/**
+ * Interleave `sources` as their pages arrive
+ */
+export async function* mergeSources<T>(
+  sources: Readonly<Record<string, AsyncIterable<T>>>,
+  { onStatus = () => {}, stallAfterMs = Infinity, fromIndex = {}, signal }: MergeOptions = {},
+): AsyncGenerator<Tagged<T>, void, undefined> {
+  const feeds = Object.entries(sources).map(([source, iterable]): Feed<T> => ({
+    source,
+    iterator: iterable[Symbol.asyncIterator](),
+    index: fromIndex[source] ?? 0,
+    status: { source, state: 'waiting', pages: 0 },
+  }));
+  const failures: Error[] = [];
+
+  const report = (feed: Feed<T>, change: Partial<SourceStatus>) => {
+    feed.status = { ...feed.status, ...change };
+    onStatus(feed.status);
+  };
+
+  const pull = (feed: Feed<T>) => {
+    if (Number.isFinite(stallAfterMs)) {
+      feed.stallTimer = setTimeout(() => report(feed, { state: 'stalled' }), stallAfterMs);
+    }
+    // An iterator that throws instead of rejecting fails the same way
+    feed.pending = (async () => feed.iterator.next())().then(
+      result => ({ feed, result }),
+      error => ({ feed, error }),
+    );
+  };
+
+  const inFlight = () => feeds.flatMap(({ pending }) => pending ? [pending] : []);
+
+  for (const feed of feeds) {
+    report(feed, {});
+    pull(feed);
+  }
+
+  try {
+    for (let pending = inFlight(); pending.length > 0; pending = inFlight()) {
+      const settled = await raceAbort(Promise.race(pending), signal);
+      const { feed } = settled;
+      feed.pending = undefined;
+      clearTimeout(feed.stallTimer);
+
+      if ('error' in settled) {
+        const message = settled.error instanceof Error ? settled.error.message : String(settled.error);
+        failures.push(new Error(`${feed.source}: ${message}`, { cause: settled.error }));
+        report(feed, { state: 'failed', error: message });
+        continue;
+      }
+      if (settled.result.done) {
+        report(feed, { state: 'done' });
+        continue;
+      }
+
+      const index = feed.index++;
+      report(feed, {
+        state: 'streaming',
+        pages: feed.status.pages + 1,
+        lastPageAt: new Date().toISOString(),
+        error: undefined,
+      });
+      yield { source: feed.source, index, value: settled.result.value };
+      pull(feed);
+    }
+  } finally {
+    // Stopped early (break, throw, abort): let the sources still running clean
+    // up. Their pending `next()` already settles into a value, never a rejection.
+    for (const feed of feeds) {
+      clearTimeout(feed.stallTimer);
+      if (feed.pending) void (async () => feed.iterator.return?.())().catch(() => {});
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new AggregateError(
+      failures,
+      `${failures.length} of ${feeds.length} sources failed: ${failures.map(e => e.message).join('; ')}`,
+    );
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * Mergeable per-group metrics
+ *
+ * The folds in `aggregation.ts` keep one number per key: a sum. Here each
+ * metric is an aggregator over a partial state: `add` folds one order's
+ * lines of a group in, `merge` combines two states and `value` reads the
+ * number off. Merging is associative, like `mergeTotals`, so page states
+ * fold into running ones (or feeds into each other) in any grouping, and
+ * `combine` computes several metrics in one pass over the orders. Most
+ * metrics can also `remove` an order again, for folds that reconcile order
+ * versions; a distinct count or a minimum cannot.
+ */
+
+import type { Order, LineItem, Metric, RankedSnapshot, IntakeStats } from './types';
+import { isPaid, lineRevenue, lineQuantity, type Aggregation, type StreamOptions } from './aggregation';
+import { hyperLogLog, quantileSketch, type HyperLogLog, type QuantileSketch } from './sketches';
+import { partitionPage, emptyIntakeStats } from './validation';
+import { abortable } from './abort';
+
+// --- Aggregators -------------------------------------------------------------
+
+export type Aggregator<S, V = number> = {
+  empty: () => S;
+  /** Fold one order's lines of a group in (may update a page-local `state` in place) */
+  add: (state: S, order: Order, items: ReadonlyArray<LineItem>) => S;
+  /** Combine two states without modifying either */
+  merge: (a: S, b: S) => S;
+  /**
+   * Take one order's lines of a group back out, without modifying `state`.
+   * Absent when the state cannot forget an order (a sketch of distinct
+   * values, a minimum or maximum): it then keeps counting it.
+   */
+  remove?: (state: S, order: Order, items: ReadonlyArray<LineItem>) => S;
+  value: (state: S) => V;
+  /** Plain, JSON-safe copy of a state (for checkpoints), and back */
+  save: (state: S) => unknown;
+  load: (saved: unknown) => S;
+};
+
+// States that are plain data already
+const plain = <S>() => ({
+  save: (state: S): unknown => state,
+  load: (saved: unknown) => saved as S,
+});
+
+type Measure = Aggregation['measure'];
+
+const orderValue = (measure: Measure, order: Order, items: ReadonlyArray<LineItem>): number =>
+  items.reduce((total, item) => total + measure(order, item), 0);
+
+export const sumOf = (measure: Measure): Aggregator<number> => ({
+  empty: () => 0,
+  add: (total, order, items) => total + orderValue(measure, order, items),
+  merge: (a, b) => a + b,
+  remove: (total, order, items) => total - orderValue(measure, order, items),
+  value: total => total,
+  ...plain<number>(),
+});
+
+export const orderCount: Aggregator<number> = {
+  empty: () => 0,
+  add: count => count + 1,
+  merge: (a, b) => a + b,
+  remove: count => count - 1,
+  value: count => count,
+  ...plain<number>(),
+};
+
+/** Mean order value, rounded to minor units */
+export const averageOf = (measure: Measure): Aggregator<{ total: number; orders: number }> => ({
+  empty: () => ({ total: 0, orders: 0 }),
+  add: ({ total, orders }, order, items) => ({ total: total + orderValue(measure, order, items), orders: orders + 1 }),
+  merge: (a, b) => ({ total: a.total + b.total, orders: a.orders + b.orders }),
+  remove: ({ total, orders }, order, items) => ({ total: total - orderValue(measure, order, items), orders: orders - 1 }),
+  value: ({ total, orders }) => orders === 0 ? 0 : Math.round(total / orders),
+  ...plain<{ total: number; orders: number }>(),
+});
+
+export const minOf = (measure: Measure): Aggregator<number> => ({
+  empty: () => Infinity,
+  add: (min, order, items) => Math.min(min, orderValue(measure, order, items)),
+  merge: (a, b) => Math.min(a, b),
+  value: min => Number.isFinite(min) ? min : 0,
+  save: min => Number.isFinite(min) ? min : null,   // JSON has no Infinity
+  load: saved => (saved as number | null) ?? Infinity,
+});
+
+export const maxOf = (measure: Measure): Aggregator<number> => ({
+  empty: () => -Infinity,
+  add: (max, order, items) => Math.max(max, orderValue(measure, order, items)),
+  merge: (a, b) => Math.max(a, b),
+  value: max => Number.isFinite(max) ? max : 0,
+  save: max => Number.isFinite(max) ? max : null,
+  load: saved => (saved as number | null) ?? -Infinity,
+});
+
+/** Distinct `customerId`s, estimated with a HyperLogLog sketch */
+export const distinctCustomers = (precision = 12): Aggregator<HyperLogLog> => ({
+  empty: () => hyperLogLog({ precision }),
+  add: (sketch, order) => {
+    sketch.add(order.customerId);
+    return sketch;
+  },
+  merge: (a, b) => a.merge(b),
+  value: sketch => Math.round(sketch.estimate()),
+  save: sketch => {
+    const state = sketch.state();
+    return 'hashes' in state ? { hashes: [...state.hashes] } : { registers: [...state.registers] };
+  },
+  load: saved => {
+    const state = saved as { hashes: number[] } | { registers: number[] };
+    return hyperLogLog({ precision }, 'hashes' in state
+      ? { hashes: new Set(state.hashes) }
+      : { registers: Uint8Array.from(state.registers) });
+  },
+});
+
+/** Quantile `q` of the line values, from a quantile sketch */
+export const quantileOf = (measure: Measure, q: number, relativeAccuracy = 0.01): Aggregator<QuantileSketch> => ({
+  empty: () => quantileSketch({ relativeAccuracy }),
+  add: (sketch, order, items) => {
+    items.forEach(item => sketch.add(measure(order, item)));
+    return sketch;
+  },
+  merge: (a, b) => a.merge(b),
+  remove: (sketch, order, items) => {
+    const copy = quantileSketch({ relativeAccuracy }, sketch.state());
+    items.forEach(item => copy.remove(measure(order, item)));
+    return copy;
+  },
+  value: sketch => sketch.count() === 0 ? 0 : Math.round(sketch.quantile(q)),
+  save: sketch => {
+    const { zeros, buckets } = sketch.state();
+    return { zeros, buckets: [...buckets] };
+  },
+  load: saved => {
+    const { zeros, buckets } = saved as { zeros: number; buckets: Array<[number, number]> };
+    return quantileSketch({ relativeAccuracy }, { zeros, buckets: new Map(buckets) });
+  },
+});
+
+// --- Composition -------------------------------------------------------------
+
+export type Combined<S extends Record<string, unknown>> = Aggregator<S, Record<keyof S, number>> & {
+  /** One metric's value, without computing the others */
+  valueOf: (state: S, name: keyof S) => number;
+  /** Every part that can `remove` the order does; the others keep it */
+  remove: (state: S, order: Order, items: ReadonlyArray<LineItem>) => S;
+};
+
+/**
+ * Several aggregators as one: the state and the value are records by name
+ */
+export const combine = <S extends Record<string, unknown>>(
+  parts: { [N in keyof S]: Aggregator<S[N]> },
+): Combined<S> => {
+  const names = Object.keys(parts) as Array<keyof S>;
+  const each = <V>(f: (name: keyof S) => V) =>
+    Object.fromEntries(names.map(name => [name, f(name)])) as Record<keyof S, V>;
+
+  return {
+    empty: () => each(name => parts[name].empty()) as S,
+    add: (state, order, items) => each(name => parts[name].add(state[name], order, items)) as S,
+    merge: (a, b) => each(name => parts[name].merge(a[name], b[name])) as S,
+    remove: (state, order, items) =>
+      each(name => parts[name].remove?.(state[name], order, items) ?? state[name]) as S,
+    value: state => each(name => parts[name].value(state[name])),
+    valueOf: (state, name) => parts[name].value(state[name]),
+    save: state => each(name => parts[name].save(state[name])),
+    load: saved => each(name => parts[name].load((saved as Record<keyof S, unknown>)[name])) as S,
+  };
+};
+
+/** Every `Metric`, computed together (line values in reporting-currency minor units) */
+export const allMetrics = combine({
+  revenue: sumOf(lineRevenue),
+  orders: orderCount,
+  units: sumOf(lineQuantity),
+  aov: averageOf(lineRevenue),
+  minOrder: minOf(lineRevenue),
+  maxOrder: maxOf(lineRevenue),
+  customers: distinctCustomers(),
+  p50Line: quantileOf(lineRevenue, 0.5),
+  p95Line: quantileOf(lineRevenue, 0.95),
+} satisfies Record<Metric, unknown>);
+
+export type MetricStates = ReturnType<typeof allMetrics.empty>;
+
+export const METRICS = Object.keys(allMetrics.empty()) as ReadonlyArray<Metric>;
+
+// --- Grouped folds -----------------------------------------------------------
+
+export type GroupSpec<K> = Pick<Aggregation<K>, 'key'> & Partial<Pick<Aggregation<K>, 'filter'>>;
+
+/**
+ * Fold one page into a state per key (paid orders unless `filter` says
+ * otherwise). An order's lines are grouped by key first, so order-level
+ * metrics (count, AOV, min/max) see each order once per group.
+ */
+export const foldGroups = <K, S>({ key, filter = isPaid }: GroupSpec<K>, aggregator: Aggregator<S, unknown>) =>
+  (page: ReadonlyArray<Order>): Map<K, S> =>
+    page
+      .filter(filter)
+      .reduce((groups, order) => {
+        Map.groupBy(order.items, item => key(order, item)).forEach((items, group) => {
+          groups.set(group, aggregator.add(groups.get(group) ?? aggregator.empty(), order, items));
+        });
+        return groups;
+      }, new Map<K, S>());
+
+/**
+ * Combine two per-key state maps (associative, does not mutate its inputs)
+ */
+export const mergeGroups = <K, S>(aggregator: Aggregator<S, unknown>) =>
+  (a: Map<K, S>, b: Map<K, S>): Map<K, S> =>
+    b.entries().reduce(
+      (result, [key, state]) => result.set(key, result.has(key) ? aggregator.merge(result.get(key)!, state) : state),
+      new Map(a),
+    );
+
+export type MetricRow<K, S extends Record<string, unknown>> = { key: K; values: Record<keyof S, number> };
+
+export type MetricRanker<K, S extends Record<string, unknown>> = {
+  add: (pageGroups: Map<K, S>) => void;
+  /** The `n` keys with the highest `rankBy` value, with all their values */
+  top: (n: number) => Array<MetricRow<K, S>>;
+  states: () => Map<K, S>;
+};
+
+/**
+ * The `n` keys of `states` with the highest `rankBy` value, with all their values
+ */
+export const topMetrics = <K, S extends Record<string, unknown>>(
+  aggregator: Combined<S>,
+  rankBy: keyof S,
+  states: Map<K, S>,
+  n: number,
+): Array<MetricRow<K, S>> =>
+  states.entries()
+    .map(([key, state]) => ({ key, state, rank: aggregator.valueOf(state, rankBy) }))
+    .toArray()
+    .toSorted((a, b) => b.rank - a.rank)
+    .slice(0, n)
+    .map(({ key, state }) => ({ key, values: aggregator.value(state) }));
+
+/**
+ * Running per-key states, ranked by one of the combined metrics
+ */
+export const metricRanker = <K, S extends Record<string, unknown>>(
+  aggregator: Combined<S>,
+  rankBy: keyof S,
+): MetricRanker<K, S> => {
+  const merge = mergeGroups<K, S>(aggregator);
+  let running = new Map<K, S>();
+  return {
+    add: pageGroups => { running = merge(running, pageGroups); },
+    top: n => topMetrics(aggregator, rankBy, running, n),
+    states: () => running,
+  };
+};
+
+// --- Rolling stream ----------------------------------------------------------
+
+/**
+ * `streamTopN` with several metrics per key, ranked by `rankBy`; each
+ * snapshot is `[key, values]` pairs. Resolves with the final ranker.
+ */
+export const streamTopMetrics = async <K, S extends Record<string, unknown>>(
+  pages: AsyncIterable<ReadonlyArray<unknown>>,
+  spec: GroupSpec<K>,
+  aggregator: Combined<S>,
+  rankBy: keyof S,
+  limit: number,
+  onUpdate: (snapshot: RankedSnapshot<K, Record<keyof S, number>>, pageIndex: number, intake: IntakeStats) => void,
+  { deadLetter = () => {}, onPage = () => {}, resumeFrom, signal }: StreamOptions = {},
+): Promise<MetricRanker<K, S>> => {
+  const pageGroups = foldGroups<K, S>(spec, aggregator);
+  const ranker = metricRanker<K, S>(aggregator, rankBy);
+  let intake = resumeFrom?.intake ?? emptyIntakeStats();
+  let pageIndex = resumeFrom?.pageIndex ?? 0;
+
+  for await (const page of abortable(pages, signal)) {
+    const { valid, rejected } = partitionPage(page, pageIndex);
+    rejected.forEach(deadLetter);
+    intake = {
+      accepted: intake.accepted + valid.length,
+      rejected: intake.rejected + rejected.length,
+    };
+
+    onPage(valid, pageIndex);
+    ranker.add(pageGroups(valid));
+    onUpdate(ranker.top(limit).map(({ key, values }) => [key, values] as const), pageIndex++, intake);
+  }
+
+  return ranker;
+};
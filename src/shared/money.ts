@@ -0,0 +1,167 @@
+/**
+ * Money in integer minor units, with currency
+ *
+ * `unitPrice` is stored in minor units (cents, pence, yen), so amounts are
+ * only ever formatted by dividing by the currency's own number of decimals.
+ * Line values are computed in BigInt before being converted into the
+ * reporting currency, so `qty * unitPrice` cannot lose precision.
+ */
+
+import type { Order, LineItem } from './types';
+
+export type Money = { minor: bigint; currency: string };
+
+/** Currency every leaderboard reports in */
+export const REPORTING_CURRENCY = 'USD';
+
+/** Currency assumed for orders that do not carry one */
+export const DEFAULT_CURRENCY = 'USD';
+
+/**
+ * Local, static exchange rates: one major unit of `currency` is worth
+ * `rates[currency]` major units of `base`
+ */
+export type RateTable = { base: string; rates: Readonly<Record<string, number>> };
+
+export const DEFAULT_RATE_TABLE: RateTable = {
+  base: 'USD',
+  rates: {
+    USD: 1,
+    EUR: 1.08,
+    GBP: 1.27,
+    CHF: 1.12,
+    CAD: 0.73,
+    AUD: 0.66,
+    JPY: 0.0067,
+    HUF: 0.0028,
+    SEK: 0.095,
+    PLN: 0.25,
+  },
+};
+
+const RATE_SCALE = 1_000_000_000n;   // rates are applied as fixed-point integers
+
+let activeTable = DEFAULT_RATE_TABLE;
+
+/** The table conversions use when not given one: `DEFAULT_RATE_TABLE` until `useRateTable` */
+export const currentRateTable = (): RateTable => activeTable;
+
+/**
+ * Convert with `table` from now on, e.g. one loaded with `readRateTable` at
+ * start-up. It applies to this thread only; `createFoldPool` hands the
+ * current table to its workers.
+ */
+export const useRateTable = (table: RateTable): void => {
+  activeTable = table;
+};
+
+// --- Currency metadata -------------------------------------------------------
+
+const digitsCache = new Map<string, number>();
+
+/**
+ * Number of minor-unit digits (USD 2, JPY 0, KWD 3), from Intl
+ */
+export const currencyDigits = (currency: string): number => {
+  const cached = digitsCache.get(currency);
+  if (cached !== undefined) return cached;
+  const digits = new Intl.NumberFormat('en', { style: 'currency', currency })
+    .resolvedOptions().maximumFractionDigits ?? 2;
+  digitsCache.set(currency, digits);
+  return digits;
+};
+
+export const isCurrencyCode = (value: unknown): value is string =>
+  typeof value === 'string' && /^[A-Z]{3}$/.test(value);
+
+export const orderCurrency = (order: Pick<Order, 'currency'>): string =>
+  order.currency ?? DEFAULT_CURRENCY;
+
+// --- Arithmetic --------------------------------------------------------------
+
+export const money = (minor: number | bigint, currency: string): Money => ({
+  minor: BigInt(minor),
+  currency,
+});
+
+export const addMoney = (a: Money, b: Money): Money => {
+  if (a.currency !== b.currency) {
+    throw new Error(`Cannot add ${a.currency} to ${b.currency}; convert first`);
+  }
+  return { minor: a.minor + b.minor, currency: a.currency };
+};
+
+/** Value of one line item in the order's own currency */
+export const lineMoney = (order: Order, item: LineItem): Money =>
+  money(BigInt(item.qty) * BigInt(item.unitPrice), orderCurrency(order));
+
+const divRoundHalfUp = (n: bigint, d: bigint): bigint => {
+  const sign = n < 0n ? -1n : 1n;
+  const abs = n < 0n ? -n : n;
+  return sign * ((abs * 2n + d) / (2n * d));
+};
+
+const rateTo = (table: RateTable, currency: string): number => {
+  const rate = table.rates[currency];
+  if (rate === undefined) throw new Error(`No exchange rate for ${currency} in ${table.base} rate table`);
+  return rate;
+};
+
+/**
+ * Convert between currencies through the table's base currency,
+ * rounding half-up to the target currency's minor unit
+ */
+export const convert = (amount: Money, to: string, table: RateTable = activeTable): Money => {
+  if (amount.currency === to) return amount;
+  const rate = rateTo(table, amount.currency) / rateTo(table, to);
+  const scaledRate = BigInt(Math.round(rate * Number(RATE_SCALE)));
+  const fromDigits = 10n ** BigInt(currencyDigits(amount.currency));
+  const toDigits = 10n ** BigInt(currencyDigits(to));
+  return {
+    minor: divRoundHalfUp(amount.minor * scaledRate * toDigits, fromDigits * RATE_SCALE),
+    currency: to,
+  };
+};
+
+export const hasRate = (currency: string, table: RateTable = activeTable): boolean =>
+  table.rates[currency] !== undefined;
+
+/**
+ * Line value in the reporting currency's minor units, as a plain number
+ * for the folds. Throws rather than silently losing precision.
+ */
+export const reportingMinor = (
+  order: Order,
+  item: LineItem,
+  table: RateTable = activeTable,
+  reporting: string = REPORTING_CURRENCY,
+): number => {
+  const { minor } = convert(lineMoney(order, item), reporting, table);
+  const value = Number(minor);
+  if (!Number.isSafeInteger(value)) {
+    throw new RangeError(`Line value ${minor} ${reporting} of order ${order.id} exceeds safe integer range`);
+  }
+  return value;
+};
+
+// --- Formatting --------------------------------------------------------------
+
+/**
+ * Locale-aware formatting of an amount in minor units: 1200 USD → "$12.00"
+ */
+export const formatMoney = (
+  minor: number | bigint,
+  currency: string = REPORTING_CURRENCY,
+  locale?: string,
+): string => {
+  const digits = currencyDigits(currency);
+  const value = BigInt(minor);
+  const negative = value < 0n;
+  const abs = (negative ? -value : value).toString().padStart(digits + 1, '0');
+  const decimal = digits === 0
+    ? abs
+    : `${abs.slice(0, -digits)}.${abs.slice(-digits)}`;
+
+  return new Intl.NumberFormat(locale, { style: 'currency', currency })
+    .format(`${negative ? '-' : ''}${decimal}` as Intl.StringNumericLiteral);
+};
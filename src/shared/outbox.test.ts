@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createOutbox, type Channel } from './outbox';
+
+/**
+ * A socket whose buffer only drains when told to; every frame sent is
+ * recorded in `sent`
+ */
+const fakeChannel = () => {
+  const sent: string[] = [];
+  const closed: Array<[code: number, reason: string]> = [];
+  let pending: Array<{ data: string; done: (err?: Error) => void }> = [];
+  let buffered = 0;
+
+  const channel: Channel = {
+    bufferedAmount: () => buffered,
+    send: (data, done) => {
+      sent.push(data);
+      buffered += data.length;
+      pending.push({ data, done });
+    },
+    close: (code, reason) => { closed.push([code, reason]); },
+  };
+
+  // Hand every buffered frame to the network, including those sent meanwhile
+  const drain = () => {
+    while (pending.length > 0) {
+      const frames = pending;
+      pending = [];
+      for (const { data, done } of frames) {
+        buffered -= data.length;
+        done();
+      }
+    }
+  };
+
+  return { channel, sent, closed, drain };
+};
+
+test('conflate replaces a queued update in place with the replacement of its successor', () => {
+  const { channel, sent, drain } = fakeChannel();
+  const outbox = createOutbox(channel, { policy: 'conflate', highWaterMark: 1 });
+
+  outbox.enqueue({ data: 'a1', key: 'a' });
+  outbox.enqueue({ data: 'b1', key: 'b' });
+  outbox.enqueue({ data: 'reply' });
+  outbox.enqueue({ data: 'b2', key: 'b', replacement: () => 'B-full' });
+  assert.equal(outbox.metrics().queued, 2);
+  drain();
+
+  assert.deepEqual(sent, ['a1', 'B-full', 'reply']);
+  assert.equal(outbox.metrics().conflated, 1);
+  assert.equal(outbox.metrics().queued, 0);
+});
+
+test('drop holds the newest update per key and sends it once the queue drains', () => {
+  const { channel, sent, drain } = fakeChannel();
+  const outbox = createOutbox(channel, { policy: 'drop', highWaterMark: 1 });
+
+  outbox.enqueue({ data: 'a1', key: 'a' });
+  outbox.enqueue({ data: 'a2', key: 'a' });
+  outbox.enqueue({ data: 'reply' });
+  outbox.enqueue({ data: 'a3', key: 'a', replacement: () => 'A-full' });
+  drain();
+
+  assert.deepEqual(sent, ['a1', 'reply', 'A-full']);
+  assert.equal(outbox.metrics().dropped, 1);
+});
+
+test('a replacement that cannot be made falls back to the update itself', () => {
+  const { channel, sent, drain } = fakeChannel();
+  const outbox = createOutbox(channel, { policy: 'drop', highWaterMark: 1 });
+
+  outbox.enqueue({ data: 'a1', key: 'a' });
+  outbox.enqueue({ data: 'a2', key: 'a' });
+  outbox.enqueue({ data: 'a3', key: 'a', replacement: () => undefined });
+  drain();
+
+  assert.deepEqual(sent, ['a1', 'a3']);
+});
+
+test('disconnect queues every update and closes the client past maxBytes', () => {
+  const { channel, sent, closed, drain } = fakeChannel();
+  const outbox = createOutbox(channel, { policy: 'disconnect', highWaterMark: 1, maxBytes: 10 });
+
+  outbox.enqueue({ data: 'aaaa', key: 'a' });
+  outbox.enqueue({ data: 'bbb', key: 'a' });
+  assert.equal(outbox.metrics().queued, 1);
+  outbox.enqueue({ data: 'cccc', key: 'a' });
+  outbox.enqueue({ data: 'ignored' });
+  drain();
+
+  assert.deepEqual(closed, [[1008, 'client too slow']]);
+  assert.deepEqual(sent, ['aaaa']);
+  assert.equal(outbox.metrics().queued, 0);
+});
+
+test('unkeyed messages are never dropped or conflated', () => {
+  for (const policy of ['conflate', 'drop'] as const) {
+    const { channel, sent, drain } = fakeChannel();
+    const outbox = createOutbox(channel, { policy, highWaterMark: 1 });
+
+    ['r1', 'r2', 'r3'].forEach(data => outbox.enqueue({ data }));
+    drain();
+
+    assert.deepEqual(sent, ['r1', 'r2', 'r3'], policy);
+  }
+});
@@ -0,0 +1,156 @@
+/**
+ * Per-client outbound queues with backpressure
+ *
+ * A socket's send buffer only drains as fast as the client reads. Instead
+ * of writing every update into it, each client gets a queue that is only
+ * flushed while the buffer stays below a high-water mark. What happens to
+ * updates that pile up behind a slow client is a policy:
+ *
+ * - `conflate`:   a newer update with the same key replaces the queued one
+ *                 where it stands in the queue
+ * - `drop`:       keyed updates skip the queue while the client is behind;
+ *                 only the newest per key is kept and sent once it drains
+ * - `disconnect`: everything is queued; past `maxBytes` the client is closed
+ *
+ * Unkeyed messages (replies, errors) are never dropped. Past `maxBytes` a
+ * client is disconnected under every policy, so memory stays bounded.
+ */
+
+export type BackpressurePolicy = 'conflate' | 'drop' | 'disconnect';
+
+export const BACKPRESSURE_POLICIES: ReadonlyArray<BackpressurePolicy> = ['conflate', 'drop', 'disconnect'];
+
+/**
+ * The part of a socket the outbox needs; `sent` fires once the frame has
+ * been handed to the network
+ */
+export type Channel = {
+  bufferedAmount: () => number;
+  send: (data: string, sent: (err?: Error) => void) => void;
+  close: (code: number, reason: string) => void;
+};
+
+export type Outgoing = {
+  data: string;
+  /** Updates with the same key supersede each other; unkeyed ones never do */
+  key?: string;
+  /**
+   * Sent instead once an earlier update with this key was superseded,
+   * e.g. a full snapshot in place of a broken delta chain (`undefined`:
+   * none could be made, send `data`)
+   */
+  replacement?: () => string | undefined;
+};
+
+export type OutboxOptions = {
+  policy?: BackpressurePolicy;
+  highWaterMark?: number;  // bytes in the socket buffer before we hold back
+  maxBytes?: number;       // queued + buffered bytes before disconnecting
+  closeCode?: number;
+};
+
+export type OutboxMetrics = {
+  policy: BackpressurePolicy;
+  queued: number;          // messages waiting in the outbox, held ones included
+  queuedBytes: number;
+  bufferedBytes: number;   // already handed to the socket, not yet sent
+  lagMs: number;           // age of the oldest queued message
+  sent: number;
+  conflated: number;
+  dropped: number;
+};
+
+export type Outbox = {
+  enqueue: (message: Outgoing) => void;
+  metrics: () => OutboxMetrics;
+  /** Forget queued messages, e.g. after the socket closed */
+  clear: () => void;
+};
+
+type Queued = { data: string; key?: string; replacement?: Outgoing['replacement']; at: number };
+
+export const createOutbox = (channel: Channel, options: OutboxOptions = {}): Outbox => {
+  const {
+    policy = 'conflate',
+    highWaterMark = 64 * 1024,
+    maxBytes = 1024 * 1024,
+    closeCode = 1008,
+  } = options;
+
+  let queue: Queued[] = [];
+  const held = new Map<string, Queued>();   // `drop`: newest update per key, sent once the queue drains
+  let queuedBytes = 0;  // string lengths, held messages included; close enough to bytes for JSON
+  let closed = false;
+  const counts = { sent: 0, conflated: 0, dropped: 0 };
+
+  const behind = () => queue.length > 0 || held.size > 0 || channel.bufferedAmount() >= highWaterMark;
+
+  const flush = () => {
+    while (!closed && channel.bufferedAmount() < highWaterMark) {
+      if (queue.length === 0) {
+        if (held.size === 0) return;
+        queue = [...held.values()];
+        held.clear();
+      }
+      const next = queue.shift()!;
+      queuedBytes -= next.data.length;
+      counts.sent++;
+      // Keep draining as the socket catches up
+      channel.send(next.data, err => { if (!err) flush(); });
+    }
+  };
+
+  const clear = () => {
+    queue = [];
+    held.clear();
+    queuedBytes = 0;
+  };
+
+  // A superseded update takes its successor's place (and age), so the client
+  // does not wait longer for the key; the successor breaks a delta chain, so
+  // it is sent as its replacement
+  const supersede = (slot: Queued, { data, key, replacement }: Outgoing): Queued => {
+    const next = { data: replacement?.() ?? data, key, replacement, at: slot.at };
+    queuedBytes += next.data.length - slot.data.length;
+    return next;
+  };
+
+  const enqueue = (message: Outgoing) => {
+    if (closed) return;
+    const { data, key, replacement } = message;
+
+    if (key !== undefined && policy === 'drop' && behind()) {
+      const dropped = held.get(key);
+      if (dropped) counts.dropped++;
+      held.set(key, dropped ? supersede(dropped, message) : { data, key, replacement, at: Date.now() });
+      if (!dropped) queuedBytes += data.length;
+    } else if (key !== undefined && policy === 'conflate' && behind() && queue.some(q => q.key === key)) {
+      queue = queue.map(q => q.key === key ? supersede(q, message) : q);
+      counts.conflated++;
+    } else {
+      queue.push({ data, key, replacement, at: Date.now() });
+      queuedBytes += data.length;
+    }
+
+    if (queuedBytes + channel.bufferedAmount() > maxBytes) {
+      closed = true;
+      clear();
+      channel.close(closeCode, 'client too slow');
+      return;
+    }
+    flush();
+  };
+
+  return {
+    enqueue,
+    clear,
+    metrics: () => ({
+      policy,
+      queued: queue.length + held.size,
+      queuedBytes,
+      bufferedBytes: channel.bufferedAmount(),
+      lagMs: [queue[0], ...held.values()].reduce((lag, q) => q ? Math.max(lag, Date.now() - q.at) : lag, 0),
+      ...counts,
+    }),
+  };
+};
@@ -0,0 +1,137 @@
+/**
+ * Page folds on worker threads
+ *
+ * A large backfill folded on the main thread keeps the event loop busy,
+ * and sockets wait. Here each page is validated and folded into partial
+ * totals by a worker from a pool; the main thread only merges those maps
+ * into the running totals, strictly in page order, so every snapshot is
+ * the same as `streamTopN` would emit for the same pages.
+ *
+ * Only plain data crosses threads, so the grouping is named by dimension
+ * (see `DIMENSIONS`) rather than passed as a function. Folds that depend
+ * on what came before a page (such as the server's per-order ledger) are
+ * not page-mergeable and stay on the main thread. The same pool also folds
+ * validated orders into the metric states of all-time subscriptions.
+ */
+
+import type { Dimension, IntakeStats, Order, SubscriptionParams } from './types';
+import { defineAggregation, exactRanker, processPage, type Ranker, type SnapshotHandler, type StreamOptions } from './aggregation';
+import { partitionPage, emptyIntakeStats, type Rejection } from './validation';
+import { allMetrics, foldGroups } from './metrics';
+import { DIMENSIONS } from './subscriptions';
+import { createWorkerPool, mapInOrder, defaultPoolSize, type WorkerPool } from './workers';
+import { currentRateTable, type RateTable } from './money';
+
+export type PageFoldTask = {
+  page: ReadonlyArray<unknown>;
+  pageIndex: number;
+  dimension: Dimension;
+};
+
+export type PageFoldResult = {
+  totals: Array<[string, number]>;
+  accepted: number;
+  rejected: Rejection[];
+};
+
+/** Validated orders, folded once per distinct dimension and status filter */
+export type MetricFoldTask = {
+  orders: ReadonlyArray<Order>;
+  groups: ReadonlyArray<Pick<SubscriptionParams, 'dimension' | 'status'>>;
+};
+
+/** Per entry of `groups`: the saved (`allMetrics.save`) metric states per key */
+export type MetricFoldResult = Array<Array<[string, unknown]>>;
+
+export type FoldTask = PageFoldTask | MetricFoldTask;
+
+export type FoldPool = WorkerPool<FoldTask, PageFoldResult | MetricFoldResult>;
+
+const folds = new Map(
+  Object.entries(DIMENSIONS).map(([dimension, key]) => [dimension, processPage(defineAggregation({ key }))]),
+);
+
+/**
+ * Validate one page and fold its paid revenue by `dimension` (pure; what a worker runs)
+ */
+export const foldPage = ({ page, pageIndex, dimension }: PageFoldTask): PageFoldResult => {
+  const { valid, rejected } = partitionPage(page, pageIndex);
+  return {
+    totals: [...folds.get(dimension)!(valid)],
+    accepted: valid.length,
+    rejected,
+  };
+};
+
+/**
+ * Fold orders into every metric, per key, for each grouping (pure; what a worker runs)
+ */
+export const foldMetrics = ({ orders, groups }: MetricFoldTask): MetricFoldResult =>
+  groups.map(({ dimension, status }) =>
+    foldGroups({ key: DIMENSIONS[dimension], filter: order => status.includes(order.status) }, allMetrics)(orders)
+      .entries()
+      .map(([key, states]): [string, unknown] => [key, allMetrics.save(states)])
+      .toArray());
+
+export const foldTask = (task: FoldTask): PageFoldResult | MetricFoldResult =>
+  'groups' in task ? foldMetrics(task) : foldPage(task);
+
+/**
+ * `foldMetrics` on the pool. A task the pool fails (a crashed worker, or a
+ * pool that could not start) is folded here instead, after `onError`.
+ */
+export const metricFolder = (pool: FoldPool, onError: (err: Error) => void = () => {}) =>
+  async (task: MetricFoldTask): Promise<MetricFoldResult> => {
+    try {
+      return await pool.run(task) as MetricFoldResult;   // a metric task always gets a metric result
+    } catch (err) {
+      onError(err as Error);
+      return foldMetrics(task);
+    }
+  };
+
+/** What every fold worker starts with */
+export type FoldWorkerData = { rates: RateTable };
+
+/**
+ * A pool of `size` workers running `foldTask` (default: one per core, minus
+ * one). They convert with the rate table current when the pool is created.
+ */
+export const createFoldPool = (size = defaultPoolSize()): FoldPool =>
+  createWorkerPool(new URL('./foldWorker.ts', import.meta.url), size, { rates: currentRateTable() } satisfies FoldWorkerData);
+
+/**
+ * `streamTopN` for a dimension's paid revenue, with the pages folded by `pool`.
+ * Up to twice the pool size pages are in flight; results are merged in order.
+ */
+export const streamTopNParallel = async (
+  pages: AsyncIterable<ReadonlyArray<unknown>>,
+  dimension: Dimension,
+  limit: number,
+  onUpdate: SnapshotHandler<string>,
+  { pool, deadLetter = () => {}, resumeFrom, signal, ranker = exactRanker<string>() }:
+    Omit<StreamOptions, 'onPage'> & { pool: FoldPool; ranker?: Ranker<string> },
+): Promise<Map<string, number>> => {
+  let intake: IntakeStats = resumeFrom?.intake ?? emptyIntakeStats();
+  let pageIndex = resumeFrom?.pageIndex ?? 0;
+  const firstPage = pageIndex;
+
+  const results = mapInOrder(
+    pages,
+    (page, i) => pool.run({ page, pageIndex: firstPage + i, dimension }) as Promise<PageFoldResult>,
+    { concurrency: pool.size * 2, signal },
+  );
+
+  for await (const { totals, accepted, rejected } of results) {
+    rejected.forEach(deadLetter);
+    intake = {
+      accepted: intake.accepted + accepted,
+      rejected: intake.rejected + rejected.length,
+    };
+
+    ranker.add(new Map(totals));
+    onUpdate(ranker.top(limit), pageIndex++, intake);
+  }
+
+  return ranker.totals();
+};
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCircuitBreaker, retryPages, type RetryEvent } from './retry';
+import type { CircuitState } from './types';
+
+test('the circuit opens after the threshold, lets a trial through after the pause and closes on success', () => {
+  let time = 0;
+  const changes: CircuitState[] = [];
+  const breaker = createCircuitBreaker({
+    failureThreshold: 2,
+    resetAfterMs: 1000,
+    onStateChange: state => { changes.push(state); },
+    now: () => time,
+  });
+
+  breaker.failure();
+  assert.equal(breaker.state(), 'closed');
+  breaker.failure();
+  assert.equal(breaker.state(), 'open');
+  time = 400;
+  assert.equal(breaker.waitMs(), 600);
+  time = 1000;
+  assert.equal(breaker.state(), 'half-open');
+  assert.equal(breaker.waitMs(), 0);
+  breaker.success();
+
+  assert.equal(breaker.state(), 'closed');
+  assert.deepEqual(changes, ['open', 'half-open', 'closed']);
+});
+
+test('a failed trial opens the circuit again right away', () => {
+  let time = 0;
+  const breaker = createCircuitBreaker({ failureThreshold: 3, resetAfterMs: 1000, now: () => time });
+
+  [1, 2, 3].forEach(() => breaker.failure());
+  time = 1000;
+  assert.equal(breaker.state(), 'half-open');
+  breaker.failure();
+
+  assert.equal(breaker.state(), 'open');
+  assert.equal(breaker.waitMs(), 1000);
+});
+
+/** Pages 0..count-1 from `fromPage`; `fails(cursor)` decides whether fetching a page throws */
+const pagedSource = (count: number, fails: (cursor: number) => boolean) => {
+  const opened: number[] = [];
+  const open = async function* (fromPage: number) {
+    opened.push(fromPage);
+    for (let cursor = fromPage; cursor < count; cursor++) {
+      if (fails(cursor)) throw new Error(`page ${cursor} unavailable`);
+      yield `p${cursor}`;
+    }
+  };
+  return { open, opened };
+};
+
+test('a failed page is fetched again from its cursor and delivered once', async () => {
+  let failures = 1;
+  const { open, opened } = pagedSource(3, cursor => cursor === 1 && failures-- > 0);
+  const retries: RetryEvent[] = [];
+
+  const pages = await Array.fromAsync(retryPages(open, { onRetry: event => { retries.push(event); }, random: () => 0 }));
+
+  assert.deepEqual(pages, ['p0', 'p1', 'p2']);
+  assert.deepEqual(opened, [0, 1]);
+  assert.deepEqual(retries.map(({ cursor, attempt, error }) => [cursor, attempt, error.message]), [
+    [1, 1, 'page 1 unavailable'],
+  ]);
+});
+
+test('retrying gives up once one page has failed maxAttempts times in a row', async () => {
+  const { open, opened } = pagedSource(3, cursor => cursor === 2);
+  const pages: string[] = [];
+
+  await assert.rejects(
+    (async () => {
+      for await (const page of retryPages(open, {
+        policy: { maxAttempts: 3, backoff: {} },
+        breaker: createCircuitBreaker({ failureThreshold: 10 }),
+        random: () => 0,
+      })) pages.push(page);
+    })(),
+    { message: 'page 3 failed 3 times, giving up (page 2 unavailable)' },
+  );
+  assert.deepEqual(pages, ['p0', 'p1']);
+  assert.deepEqual(opened, [0, 2, 2]);
+});
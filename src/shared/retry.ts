@@ -0,0 +1,146 @@
+/**
+ * Per-page retries and a circuit breaker for paginated sources
+ *
+ * A failed page fetch is retried on its own: the source is reopened at the
+ * cursor of the page that failed, after an exponential backoff with jitter.
+ * The cursor only moves once a page has been handed on, so a retried page
+ * is delivered exactly once. A circuit breaker per source stops calling a
+ * source that keeps failing, and lets one trial call through after a pause.
+ */
+
+import { backoffDelay, DEFAULT_BACKOFF, type BackoffOptions } from './backoff';
+import type { CircuitState } from './types';
+import { delay, isAbortError } from './abort';
+
+// --- Circuit breaker ---------------------------------------------------------
+
+export type BreakerOptions = {
+  /** Consecutive failures that open the circuit (default 3) */
+  failureThreshold?: number;
+  /** How long an open circuit rejects calls before a trial (ms, default 30s) */
+  resetAfterMs?: number;
+  onStateChange?: (state: CircuitState) => void;
+  now?: () => number;
+};
+
+export type CircuitBreaker = {
+  /** `open` turns into `half-open` once `resetAfterMs` has passed */
+  state: () => CircuitState;
+  /** Time until the next call is allowed (0 unless open) */
+  waitMs: () => number;
+  success: () => void;
+  failure: () => void;
+};
+
+/**
+ * closed → (threshold failures) → open → (pause) → half-open → closed on
+ * success, or straight back to open on failure
+ */
+export const createCircuitBreaker = ({
+  failureThreshold = 3,
+  resetAfterMs = 30_000,
+  onStateChange = () => {},
+  now = Date.now,
+}: BreakerOptions = {}): CircuitBreaker => {
+  let current: CircuitState = 'closed';
+  let failures = 0;
+  let openedAt = 0;
+
+  const moveTo = (next: CircuitState) => {
+    if (next === current) return;
+    current = next;
+    onStateChange(next);
+  };
+
+  const state = (): CircuitState => {
+    if (current === 'open' && now() - openedAt >= resetAfterMs) moveTo('half-open');
+    return current;
+  };
+
+  return {
+    state,
+    waitMs: () => state() === 'open' ? openedAt + resetAfterMs - now() : 0,
+    success: () => {
+      failures = 0;
+      moveTo('closed');
+    },
+    failure: () => {
+      failures++;
+      if (state() === 'half-open' || failures >= failureThreshold) {
+        openedAt = now();
+        moveTo('open');
+      }
+    },
+  };
+};
+
+// --- Retrying source ---------------------------------------------------------
+
+export type RetryPolicy = {
+  /** Consecutive failed fetches of one page before giving up */
+  maxAttempts: number;
+  backoff: BackoffOptions;
+};
+
+export const DEFAULT_RETRY: RetryPolicy = { maxAttempts: 5, backoff: DEFAULT_BACKOFF };
+
+export type RetryEvent = {
+  cursor: number;     // page being retried
+  attempt: number;    // failed attempts so far (1-based)
+  delayMs: number;    // backoff before the next attempt, not counting an open circuit
+  error: Error;
+};
+
+/**
+ * Pages of `open(cursor)`; a failed fetch reopens the source at the page
+ * that failed. Rejects once one page has failed `maxAttempts` times in a row.
+ * Cancelling is not a failure: `signal` also cuts a backoff short.
+ */
+export async function* retryPages<T>(
+  open: (fromPage: number, signal?: AbortSignal) => AsyncIterable<T>,
+  {
+    fromPage = 0,
+    policy = DEFAULT_RETRY,
+    breaker = createCircuitBreaker(),
+    onRetry = () => {},
+    random = Math.random,
+    signal,
+  }: {
+    fromPage?: number;
+    policy?: RetryPolicy;
+    breaker?: CircuitBreaker;
+    onRetry?: (event: RetryEvent) => void;
+    random?: () => number;
+    signal?: AbortSignal;
+  } = {},
+): AsyncGenerator<T, void, undefined> {
+  let cursor = fromPage;
+  let attempt = 0;
+
+  for (;;) {
+    // Re-checked after the pause, which is what moves an open circuit to half-open
+    for (let wait = breaker.waitMs(); wait > 0; wait = breaker.waitMs()) await delay(wait, signal);
+
+    try {
+      for await (const page of open(cursor, signal)) {
+        breaker.success();
+        attempt = 0;
+        cursor++;
+        yield page;
+      }
+      breaker.success();
+      return;
+    } catch (err) {
+      if (isAbortError(err, signal)) throw err;
+      const error = err instanceof Error ? err : new Error(String(err));
+      attempt++;
+      breaker.failure();
+      if (attempt >= policy.maxAttempts) {
+        throw new Error(`page ${cursor + 1} failed ${attempt} times, giving up (${error.message})`, { cause: error });
+      }
+      const delayMs = backoffDelay(attempt - 1, policy.backoff, random);
+      onRetry({ cursor, attempt, delayMs, error });
+      await delay(delayMs, signal);
+    }
+  }
+}
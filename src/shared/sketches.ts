@@ -0,0 +1,361 @@
+/**
+ * Bounded-memory sketches for high-cardinality keys
+ *
+ * The exact fold keeps one counter per distinct key and sorts all of them
+ * for every snapshot. That is fine for a handful of categories, not for
+ * millions of SKUs or customers. Sketches trade a reported, bounded error
+ * for memory that does not grow with the number of keys.
+ */
+
+import type { RankedSnapshot } from './types';
+import type { Ranker } from './aggregation';
+
+// --- Space-Saving heavy hitters ----------------------------------------------
+
+export type HeavyHitter<K> = {
+  key: K;
+  estimate: number;     // never below the true total
+  error: number;        // estimate - error <= true total <= estimate
+  guaranteed: boolean;  // certainly belongs in the reported top-N
+};
+
+export type SpaceSaving<K> = Ranker<K> & {
+  capacity: number;
+  /** Sum of every weight counted so far, retractions included */
+  totalWeight: () => number;
+  /**
+   * Worst-case overestimate of any key: 0 until a counter is evicted, then
+   * the smallest counter's count (never more than totalWeight / capacity)
+   */
+  maxError: () => number;
+  topWithError: (n: number) => HeavyHitter<K>[];
+};
+
+/**
+ * Counters needed so no estimate is off by more than `epsilon * totalWeight`
+ */
+export const capacityForError = (epsilon: number): number => {
+  if (!(epsilon > 0 && epsilon < 1)) throw new RangeError(`epsilon must be in (0, 1), got ${epsilon}`);
+  return Math.ceil(1 / epsilon);
+};
+
+type Counter<K> = { key: K; count: number; error: number };
+
+/**
+ * Weighted Space-Saving (Metwally et al.) over a fixed number of counters.
+ * Counters sit in a min-heap so evicting the smallest one is O(log capacity).
+ *
+ * Negative weights are taken off the key's counter when it is monitored and
+ * dropped otherwise. The bounds in `HeavyHitter` assume insertions only; they
+ * still roughly hold while retractions are a small share of the weight
+ * (refunds against sales), not when most of it is taken back.
+ */
+export const spaceSaving = <K>({ capacity }: { capacity: number }): SpaceSaving<K> => {
+  if (!Number.isInteger(capacity) || capacity < 1) {
+    throw new RangeError(`capacity must be a positive integer, got ${capacity}`);
+  }
+
+  const heap: Counter<K>[] = [];
+  const position = new Map<K, number>();
+  let totalWeight = 0;
+  let evicted = false;
+
+  const swap = (i: number, j: number): void => {
+    const a = heap[i]!;
+    const b = heap[j]!;
+    heap[i] = b;
+    heap[j] = a;
+    position.set(b.key, i);
+    position.set(a.key, j);
+  };
+
+  const siftUp = (i: number): void => {
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent]!.count <= heap[i]!.count) return;
+      swap(i, parent);
+      i = parent;
+    }
+  };
+
+  const siftDown = (i: number): void => {
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < heap.length && heap[left]!.count < heap[smallest]!.count) smallest = left;
+      if (right < heap.length && heap[right]!.count < heap[smallest]!.count) smallest = right;
+      if (smallest === i) return;
+      swap(i, smallest);
+      i = smallest;
+    }
+  };
+
+  const addOne = (key: K, weight: number): void => {
+    const at = position.get(key);
+    if (weight <= 0) {
+      // A retraction (e.g. a refund) comes off a monitored counter; one for
+      // an unmonitored key is dropped, its count was given away on eviction
+      if (weight === 0 || at === undefined) return;
+      totalWeight += weight;
+      heap[at]!.count += weight;
+      siftUp(at);
+      return;
+    }
+    totalWeight += weight;
+
+    if (at !== undefined) {
+      heap[at]!.count += weight;
+      siftDown(at);
+      return;
+    }
+    if (heap.length < capacity) {
+      heap.push({ key, count: weight, error: 0 });
+      position.set(key, heap.length - 1);
+      siftUp(heap.length - 1);
+      return;
+    }
+    // Evict the smallest counter; the newcomer inherits its count as error
+    const min = heap[0]!;
+    position.delete(min.key);
+    evicted = true;
+    heap[0] = { key, count: min.count + weight, error: min.count };
+    position.set(key, 0);
+    siftDown(0);
+  };
+
+  const sorted = (): Counter<K>[] => heap.toSorted((a, b) => b.count - a.count);
+
+  const topWithError = (n: number): HeavyHitter<K>[] => {
+    const ranked = sorted();
+    const threshold = ranked[n]?.count ?? 0;   // best estimate just outside the top N
+    return ranked.slice(0, n).map(c => ({
+      key: c.key,
+      estimate: c.count,
+      error: c.error,
+      guaranteed: c.count - c.error >= threshold,
+    }));
+  };
+
+  return {
+    capacity,
+    add: (totals: Map<K, number>) => totals.forEach((weight, key) => addOne(key, weight)),
+    top: (n: number): RankedSnapshot<K> =>
+      sorted().slice(0, n).map(c => [c.key, c.count] as const),
+    totals: () => new Map(heap.map(c => [c.key, c.count] as const)),
+    totalWeight: () => totalWeight,
+    maxError: () => evicted ? heap[0]!.count : 0,
+    topWithError,
+  };
+};
+
+// --- Hashing -----------------------------------------------------------------
+
+/**
+ * 32-bit hash of a string: FNV-1a, then the murmur3 finalizer to spread
+ * the bits (HyperLogLog reads both the top bits and the leading zeros)
+ */
+export const hashString = (value: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) h = Math.imul(h ^ value.charCodeAt(i), 0x01000193);
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+// --- HyperLogLog distinct count ----------------------------------------------
+
+export type HyperLogLog = {
+  precision: number;
+  /** Relative standard error of `estimate()` once past the exact range */
+  standardError: number;
+  add: (value: string) => void;
+  /** A new sketch counting the union of both (neither is modified) */
+  merge: (other: HyperLogLog) => HyperLogLog;
+  estimate: () => number;
+  /** Exact hashes while few have been seen, else the registers */
+  state: () => HyperLogLogState;
+};
+
+export type HyperLogLogState = { hashes: ReadonlySet<number> } | { registers: Uint8Array };
+
+/**
+ * Distinct values in `2^precision` bytes, error about `1.04 / sqrt(2^precision)`.
+ * Small sets are kept as exact hashes (sparse) until they would outgrow a
+ * fraction of the registers, so many small groups stay cheap.
+ */
+export const hyperLogLog = (
+  { precision = 12 }: { precision?: number } = {},
+  initial?: HyperLogLogState,
+): HyperLogLog => {
+  if (!Number.isInteger(precision) || precision < 4 || precision > 16) {
+    throw new RangeError(`precision must be an integer from 4 to 16, got ${precision}`);
+  }
+  const m = 2 ** precision;
+  const sparseLimit = m / 16;
+  let hashes: Set<number> | null = initial && 'hashes' in initial ? new Set(initial.hashes) : null;
+  let registers: Uint8Array | null = initial && 'registers' in initial ? initial.registers.slice() : null;
+  if (!hashes && !registers) hashes = new Set();
+
+  const setRegister = (target: Uint8Array, hash: number): void => {
+    const index = hash >>> (32 - precision);
+    const rank = Math.min(Math.clz32((hash << precision) >>> 0) + 1, 32 - precision + 1);
+    if (rank > target[index]!) target[index] = rank;
+  };
+
+  const densify = (from: ReadonlySet<number>): Uint8Array => {
+    const dense = new Uint8Array(m);
+    from.forEach(hash => setRegister(dense, hash));
+    return dense;
+  };
+
+  const addHash = (hash: number): void => {
+    if (hashes) {
+      hashes.add(hash);
+      if (hashes.size > sparseLimit) {
+        registers = densify(hashes);
+        hashes = null;
+      }
+    } else {
+      setRegister(registers!, hash);
+    }
+  };
+
+  const state = (): HyperLogLogState => hashes ? { hashes } : { registers: registers! };
+
+  const mergeStates = (a: HyperLogLogState, b: HyperLogLogState): HyperLogLogState => {
+    if ('hashes' in a && 'hashes' in b) {
+      const union = a.hashes.union(b.hashes);
+      return union.size > sparseLimit ? { registers: densify(union) } : { hashes: union };
+    }
+    const dense = 'registers' in a ? a.registers.slice() : densify(a.hashes);
+    if ('hashes' in b) b.hashes.forEach(hash => setRegister(dense, hash));
+    else b.registers.forEach((rank, i) => { if (rank > dense[i]!) dense[i] = rank; });
+    return { registers: dense };
+  };
+
+  const alpha = m === 16 ? 0.673 : m === 32 ? 0.697 : m === 64 ? 0.709 : 0.7213 / (1 + 1.079 / m);
+
+  return {
+    precision,
+    standardError: 1.04 / Math.sqrt(m),
+    add: value => addHash(hashString(value)),
+    merge: other => {
+      if (other.precision !== precision) {
+        throw new RangeError(`Cannot merge HyperLogLog sketches of precision ${precision} and ${other.precision}`);
+      }
+      return hyperLogLog({ precision }, mergeStates(state(), other.state()));
+    },
+    estimate: () => {
+      if (hashes) return hashes.size;
+      let sum = 0;
+      let zeros = 0;
+      for (const rank of registers!) {
+        sum += 2 ** -rank;
+        if (rank === 0) zeros++;
+      }
+      const raw = (alpha * m * m) / sum;
+      // Small-range correction (linear counting)
+      return raw <= 2.5 * m && zeros > 0 ? m * Math.log(m / zeros) : raw;
+    },
+    state,
+  };
+};
+
+// --- Quantile sketch ---------------------------------------------------------
+
+export type QuantileSketch = {
+  relativeAccuracy: number;
+  /** Record a non-negative value (`count` times) */
+  add: (value: number, count?: number) => void;
+  /** Take back a value recorded earlier (`count` times) */
+  remove: (value: number, count?: number) => void;
+  /** A new sketch of both distributions (neither is modified) */
+  merge: (other: QuantileSketch) => QuantileSketch;
+  /** Value at rank `q` (0..1), within `relativeAccuracy` of a recorded one; NaN when empty */
+  quantile: (q: number) => number;
+  count: () => number;
+  state: () => QuantileSketchState;
+};
+
+export type QuantileSketchState = { zeros: number; buckets: ReadonlyMap<number, number> };
+
+/**
+ * Log-bucketed histogram (DDSketch): bucket `i` holds the values in
+ * `(γ^(i-1), γ^i]` with `γ = (1 + α) / (1 - α)`, so any quantile is off by
+ * at most the relative accuracy `α`. Merging adds bucket counts, which is
+ * exact, and the number of buckets only grows with the log of the range.
+ */
+export const quantileSketch = (
+  { relativeAccuracy = 0.01 }: { relativeAccuracy?: number } = {},
+  initial?: QuantileSketchState,
+): QuantileSketch => {
+  if (!(relativeAccuracy > 0 && relativeAccuracy < 1)) {
+    throw new RangeError(`relativeAccuracy must be in (0, 1), got ${relativeAccuracy}`);
+  }
+  const gamma = (1 + relativeAccuracy) / (1 - relativeAccuracy);
+  const logGamma = Math.log(gamma);
+  const buckets = new Map(initial?.buckets ?? []);
+  let zeros = initial?.zeros ?? 0;
+  let total = zeros + buckets.values().reduce((a, b) => a + b, 0);
+
+  const add = (value: number, count = 1): void => {
+    if (!(value >= 0)) throw new RangeError(`Quantile sketches take non-negative values, got ${value}`);
+    total += count;
+    if (value === 0) {
+      zeros += count;
+      return;
+    }
+    const index = Math.ceil(Math.log(value) / logGamma);
+    buckets.set(index, (buckets.get(index) ?? 0) + count);
+  };
+
+  // Never below zero, so taking back more than was recorded cannot corrupt the ranks
+  const remove = (value: number, count = 1): void => {
+    if (!(value >= 0)) throw new RangeError(`Quantile sketches take non-negative values, got ${value}`);
+    if (value === 0) {
+      const taken = Math.min(count, zeros);
+      zeros -= taken;
+      total -= taken;
+      return;
+    }
+    const index = Math.ceil(Math.log(value) / logGamma);
+    const recorded = buckets.get(index) ?? 0;
+    const taken = Math.min(count, recorded);
+    total -= taken;
+    if (recorded > taken) buckets.set(index, recorded - taken);
+    else buckets.delete(index);
+  };
+
+  const state = (): QuantileSketchState => ({ zeros, buckets });
+
+  return {
+    relativeAccuracy,
+    add,
+    remove,
+    merge: other => {
+      if (other.relativeAccuracy !== relativeAccuracy) {
+        throw new RangeError(`Cannot merge quantile sketches of accuracy ${relativeAccuracy} and ${other.relativeAccuracy}`);
+      }
+      const theirs = other.state();
+      const merged = new Map(buckets);
+      theirs.buckets.forEach((count, index) => merged.set(index, (merged.get(index) ?? 0) + count));
+      return quantileSketch({ relativeAccuracy }, { zeros: zeros + theirs.zeros, buckets: merged });
+    },
+    quantile: q => {
+      if (total === 0) return NaN;
+      const rank = Math.min(Math.max(q, 0), 1) * (total - 1);
+      let seen = zeros;
+      if (rank < seen) return 0;
+      for (const [index, count] of buckets.entries().toArray().toSorted(([a], [b]) => a - b)) {
+        seen += count;
+        if (rank < seen) return (2 * gamma ** index) / (gamma + 1);
+      }
+      return (2 * gamma ** buckets.keys().reduce((a, b) => Math.max(a, b), -Infinity)) / (gamma + 1);
+    },
+    count: () => total,
+    state,
+  };
+};
@@ -0,0 +1,402 @@
+/**
+ * File-based order sources
+ *
+ * Stream `Order` records from exports on disk (NDJSON, CSV, JSON array) and
+ * paginate them into `Order[]` pages, so they plug into the same pipelines
+ * as `fetchOrderPages()`. Everything is read incrementally: memory stays
+ * bounded by the page size, not by the file size.
+ */
+
+import { createReadStream, createWriteStream } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { createInterface } from 'node:readline';
+import { extname } from 'node:path';
+import type { Order, LineItem } from './types';
+import { fetchOrderPages } from './data';
+import { syntheticOrderPages, parseSyntheticSpec, isSyntheticSpec, type SyntheticOptions } from './synthetic';
+import { logDeadLetter, type DeadLetterSink } from './validation';
+import { isCurrencyCode, type RateTable } from './money';
+
+export type FileFormat = 'ndjson' | 'csv' | 'json';
+
+export const DEFAULT_PAGE_SIZE = 500;
+
+/**
+ * Reader options: `deadLetter` receives records that are not even valid
+ * JSON (logged by default), and aborting `signal` destroys the read stream
+ */
+export type ReadOptions = { signal?: AbortSignal; deadLetter?: DeadLetterSink };
+
+// --- Generic helpers ---------------------------------------------------------
+
+/**
+ * Group an async stream of records into pages of at most `size` items;
+ * with `partial: false` a short last page is held back (a file still being
+ * appended to is only read in whole pages)
+ */
+export async function* paginate<T>(
+  records: AsyncIterable<T>,
+  size: number,
+  { partial = true }: { partial?: boolean } = {},
+): AsyncIterable<T[]> {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new RangeError(`Page size must be a positive integer, got ${size}`);
+  }
+  let page: T[] = [];
+  for await (const record of records) {
+    page.push(record);
+    if (page.length === size) {
+      yield page;
+      page = [];
+    }
+  }
+  if (partial && page.length > 0) yield page;
+}
+
+/**
+ * Everything after the first `count` items
+ */
+export async function* skip<T>(items: AsyncIterable<T>, count: number): AsyncIterable<T> {
+  let index = 0;
+  for await (const item of items) {
+    if (index++ >= count) yield item;
+  }
+}
+
+/**
+ * Lines of a text file with their 1-based line numbers
+ */
+async function* readLines(path: string, signal?: AbortSignal): AsyncIterable<readonly [string, number]> {
+  const lines = createInterface({
+    input: createReadStream(path, { encoding: 'utf8', signal }),
+    crlfDelay: Infinity,
+  });
+  let lineNo = 0;
+  for await (const line of lines) {
+    yield [line, ++lineNo] as const;
+  }
+}
+
+/**
+ * Quarantine a record that failed to parse; `at` is `path:line`
+ */
+const unparseable = (deadLetter: DeadLetterSink, record: string, at: string, err: unknown): void =>
+  deadLetter({
+    record,
+    issues: [{ path: at, message: `is not valid JSON (${(err as Error).message})` }],
+    at: new Date().toISOString(),
+  });
+
+// --- NDJSON ------------------------------------------------------------------
+
+/**
+ * One JSON-encoded `Order` per line; blank lines are skipped, and a line
+ * that is not valid JSON goes to `deadLetter` while reading carries on
+ */
+export async function* ndjsonOrders(
+  path: string,
+  { signal, deadLetter = logDeadLetter }: ReadOptions = {},
+): AsyncIterable<Order> {
+  for await (const [line, lineNo] of readLines(path, signal)) {
+    if (line.trim() === '') continue;
+    let order: Order;
+    try {
+      order = JSON.parse(line) as Order;
+    } catch (err) {
+      unparseable(deadLetter, line, `${path}:${lineNo}`, err);
+      continue;
+    }
+    yield order;
+  }
+}
+
+// --- CSV ---------------------------------------------------------------------
+
+/**
+ * Columns expected in the CSV header (any order, extra columns ignored);
+ * an optional `currency` column sets `Order.currency`
+ */
+export const CSV_COLUMNS = [
+  'id', 'customerId', 'createdAt', 'status', 'sku', 'qty', 'unitPrice', 'category',
+] as const;
+
+type CsvRow = Record<(typeof CSV_COLUMNS)[number], string>;
+
+/**
+ * Split one CSV line into fields (RFC 4180 quoting, no embedded newlines)
+ */
+export const parseCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { fields.push(field); field = ''; }
+    else field += ch;
+  }
+  fields.push(field);
+  return fields;
+};
+
+const toLineItem = (row: CsvRow): LineItem => ({
+  sku: row.sku,
+  qty: Number(row.qty),
+  unitPrice: Number(row.unitPrice),
+  category: row.category,
+});
+
+/**
+ * One row per line item; consecutive rows sharing an `id` are grouped
+ * back into a single order. Rows of one order must be contiguous, which
+ * is how order exports are written and keeps memory at one order.
+ */
+export async function* csvOrders(path: string, { signal }: ReadOptions = {}): AsyncIterable<Order> {
+  let columns: Map<string, number> | undefined;
+  let current: Order | undefined;
+
+  for await (const [line, lineNo] of readLines(path, signal)) {
+    if (line.trim() === '') continue;
+    const fields = parseCsvLine(line);
+
+    if (!columns) {
+      columns = new Map(fields.map((name, i) => [name.trim(), i] as const));
+      const missing = CSV_COLUMNS.filter(c => !columns!.has(c));
+      if (missing.length > 0) {
+        throw new Error(`${path}:${lineNo}: missing CSV column(s) ${missing.join(', ')}`);
+      }
+      continue;
+    }
+
+    const row = Object.fromEntries(
+      CSV_COLUMNS.map(c => [c, fields[columns!.get(c)!] ?? ''] as const)
+    ) as CsvRow;
+    const currencyAt = columns.get('currency');
+    const currency = currencyAt === undefined ? '' : fields[currencyAt] ?? '';
+
+    if (current && current.id === row.id) {
+      current.items.push(toLineItem(row));
+      continue;
+    }
+    if (current) yield current;
+    current = {
+      id: row.id,
+      customerId: row.customerId,
+      createdAt: row.createdAt,
+      status: row.status as Order['status'],
+      ...(currency ? { currency } : {}),
+      items: [toLineItem(row)],
+    };
+  }
+
+  if (current) yield current;
+}
+
+// --- JSON array --------------------------------------------------------------
+
+/**
+ * Elements of a top-level JSON array, parsed one at a time.
+ * Scans characters to find element boundaries so the whole document
+ * never has to be held in memory. An element that is not valid JSON goes
+ * to `deadLetter` (with the line it starts on) and the scan carries on;
+ * a document that is not one array throws.
+ */
+export async function* jsonArrayOrders(
+  path: string,
+  { signal, deadLetter = logDeadLetter }: ReadOptions = {},
+): AsyncIterable<Order> {
+  let depth = 0;          // nesting depth; elements live at depth 1
+  let inString = false;
+  let escaped = false;
+  let closed = false;     // past the array's closing bracket
+  let element = '';
+  let lineNo = 1;
+  let elementLine = 1;
+
+  for await (const chunk of createReadStream(path, { encoding: 'utf8', signal })) {
+    for (const ch of chunk as string) {
+      if (ch === '\n') lineNo++;
+      if (inString) {
+        element += ch;
+        if (escaped) escaped = false;
+        else if (ch === '\\') escaped = true;
+        else if (ch === '"') inString = false;
+        continue;
+      }
+
+      if (depth === 0) {
+        if (/\s/.test(ch)) continue;
+        if (closed) throw new Error(`${path}:${lineNo}: unexpected content after the JSON array`);
+        if (ch === '[') depth = 1;
+        else throw new Error(`${path}: expected a top-level JSON array`);
+        continue;
+      }
+
+      if (depth === 1 && (ch === ',' || ch === ']')) {
+        if (element.trim() !== '') {
+          let order: Order | undefined;
+          try {
+            order = JSON.parse(element) as Order;
+          } catch (err) {
+            unparseable(deadLetter, element.trim(), `${path}:${elementLine}`, err);
+          }
+          if (order !== undefined) yield order;
+        }
+        element = '';
+        if (ch === ']') {
+          depth = 0;
+          closed = true;
+        }
+        continue;
+      }
+
+      if (element.trim() === '' && !/\s/.test(ch)) elementLine = lineNo;
+
+      if (ch === '"') inString = true;
+      else if (ch === '{' || ch === '[') depth++;
+      else if (ch === '}' || ch === ']') depth--;
+      element += ch;
+    }
+  }
+
+  if (depth !== 0 || inString) throw new Error(`${path}: unexpected end of JSON array`);
+}
+
+// --- Paginated file source ---------------------------------------------------
+
+const readers: Record<FileFormat, (path: string, options?: ReadOptions) => AsyncIterable<Order>> = {
+  ndjson: ndjsonOrders,
+  csv: csvOrders,
+  json: jsonArrayOrders,
+};
+
+/**
+ * Infer the format from the file extension (`.ndjson`/`.jsonl`, `.csv`, `.json`)
+ */
+export const formatFromPath = (path: string): FileFormat => {
+  const ext = extname(path).toLowerCase();
+  if (ext === '.ndjson' || ext === '.jsonl') return 'ndjson';
+  if (ext === '.csv') return 'csv';
+  if (ext === '.json') return 'json';
+  throw new Error(`Cannot infer order file format from "${path}" (use .ndjson, .jsonl, .csv or .json)`);
+};
+
+/**
+ * Drop-in replacement for `fetchOrderPages()` backed by a file on disk;
+ * aborting `signal` destroys the read stream
+ */
+export const readOrderPages = (
+  path: string,
+  { format = formatFromPath(path), pageSize = DEFAULT_PAGE_SIZE, partial, signal, deadLetter }: ReadOptions & {
+    format?: FileFormat;
+    pageSize?: number;
+    partial?: boolean;
+  } = {},
+): AsyncIterable<Order[]> =>
+  paginate(readers[format](path, { signal, deadLetter }), pageSize, { partial });
+
+// --- Named feeds -------------------------------------------------------------
+
+/**
+ * One order feed: the built-in mock pages, a file on disk, or seeded
+ * synthetic orders
+ */
+export type SourceSpec =
+  | { name: string; adapter: 'mock' }
+  | { name: string; adapter: 'file'; path: string }
+  | { name: string; adapter: 'synthetic'; options: Partial<SyntheticOptions> };
+
+export type SourceAdapter = SourceSpec['adapter'];
+
+/**
+ * What a feed reads: nothing or `mock`, `synthetic[?options]`, or a file path
+ */
+const toSourceSpec = (name: string, target = ''): SourceSpec =>
+  target === '' || target === 'mock' ? { name, adapter: 'mock' }
+  : isSyntheticSpec(target) ? { name, adapter: 'synthetic', options: parseSyntheticSpec(target) }
+  : { name, adapter: 'file', path: target };
+
+/**
+ * Parse a feed list such as `eu=data/orders.ndjson,us=data/orders.csv,demo`
+ * (a bare name, or `name=mock`, is a feed of the mock pages;
+ * `load=synthetic?seed=7` one of synthetic orders); names must be unique
+ */
+export const parseSourceSpecs = (list: string): SourceSpec[] => {
+  const specs = list.split(',').map(s => s.trim()).filter(Boolean).map((entry): SourceSpec => {
+    const at = entry.indexOf('=');
+    const name = (at === -1 ? entry : entry.slice(0, at)).trim();
+    if (!/^[\w.-]+$/.test(name)) throw new Error(`Invalid source name "${name}" in "${entry}"`);
+    return toSourceSpec(name, at === -1 ? '' : entry.slice(at + 1).trim());
+  });
+  if (specs.length === 0) throw new Error('At least one order source is required');
+  const duplicate = specs.find((s, i) => specs.findIndex(t => t.name === s.name) !== i);
+  if (duplicate) throw new Error(`Duplicate source name "${duplicate.name}"`);
+  return specs;
+};
+
+/**
+ * Pages of one feed from page `fromPage` on; files are re-read up to it.
+ * Records of a file that are not valid JSON go to `deadLetter`, tagged
+ * with the feed's name (again each time the file is re-read past them).
+ */
+export const openOrderSource = (
+  spec: SourceSpec,
+  fromPage = 0,
+  { pageSize = DEFAULT_PAGE_SIZE, partial, signal, deadLetter = logDeadLetter }: ReadOptions & { pageSize?: number; partial?: boolean } = {},
+): AsyncIterable<Order[]> =>
+  spec.adapter === 'file'
+    ? skip(readOrderPages(spec.path, {
+      pageSize,
+      partial,
+      signal,
+      deadLetter: rejection => deadLetter({ ...rejection, source: spec.name }),
+    }), fromPage)
+  : spec.adapter === 'synthetic' ? syntheticOrderPages(spec.options, { pageSize, fromPage, signal })
+  : fetchOrderPages(fromPage, { signal });
+
+/**
+ * Source for the step scripts: `<file | synthetic?options> [pageSize]` from
+ * the command line, falling back to the built-in mock pages
+ */
+export const orderPagesFromArgs = (
+  [target, pageSize] = process.argv.slice(2),
+  { signal }: { signal?: AbortSignal } = {},
+): AsyncIterable<Order[]> =>
+  openOrderSource(toSourceSpec('args', target), 0, {
+    pageSize: pageSize ? Number(pageSize) : DEFAULT_PAGE_SIZE,
+    signal,
+  });
+
+// --- Dead-letter file --------------------------------------------------------
+
+/**
+ * Dead-letter sink that appends each rejection as one NDJSON line
+ */
+export const deadLetterFile = (path: string): DeadLetterSink => {
+  const out = createWriteStream(path, { flags: 'a', encoding: 'utf8' });
+  out.on('error', err => console.error(`⚠️  Dead-letter file ${path} failed:`, err.message));
+  return rejection => { out.write(`${JSON.stringify(rejection)}\n`); };
+};
+
+// --- Exchange rates ----------------------------------------------------------
+
+/**
+ * Load a rate table (`{ "base": "USD", "rates": { "EUR": 1.08, ... } }`)
+ */
+export const readRateTable = async (path: string): Promise<RateTable> => {
+  const parsed: unknown = JSON.parse(await readFile(path, 'utf8'));
+  const { base, rates } = (parsed ?? {}) as Partial<RateTable>;
+  if (!isCurrencyCode(base) || typeof rates !== 'object' || rates === null) {
+    throw new Error(`${path}: expected { base: "<ISO 4217>", rates: { <code>: <number> } }`);
+  }
+  const bad = Object.entries(rates).filter(([code, rate]) => !isCurrencyCode(code) || !(rate > 0));
+  if (bad.length > 0) {
+    throw new Error(`${path}: invalid rate(s) for ${bad.map(([code]) => code).join(', ')}`);
+  }
+  return { base, rates: { [base]: 1, ...rates } };
+};
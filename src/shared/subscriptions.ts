@@ -0,0 +1,328 @@
+/**
+ * Parameterized leaderboard subscriptions
+ *
+ * Each distinct set of parameters (dimension, limit, status filter, window,
+ * metric) gets one aggregation, shared by every client that asked for it.
+ * The registry is fed the same validated pages as the main stream and is
+ * independent of the transport, so `C` can be a WebSocket or anything else.
+ * Order ids must be unique across the pages it is fed: a later order with
+ * the same id is a new version of it.
+ */
+
+import type { Order, LineItem, Dimension, SubscriptionParams, LeaderboardEntry } from './types';
+import { defineAggregation, byCategory, byCustomer, bySku, byDay } from './aggregation';
+import { allMetrics, foldGroups, mergeGroups, topMetrics, METRICS, type MetricStates } from './metrics';
+import { createWindowedTopN, hourly, daily, last7Days, HOUR, type WindowSpec, type WindowedTopN, type WindowState } from './windows';
+import { settleOpen, type SettleOptions } from './ledger';
+import { ORDER_STATUSES } from './validation';
+import type { MetricFoldTask, MetricFoldResult } from './parallel';
+
+export const DIMENSIONS: Readonly<Record<Dimension, (order: Order, item: LineItem) => string>> = {
+  category: byCategory,
+  customerId: byCustomer,
+  sku: bySku,
+  day: byDay,
+};
+
+export const WINDOWS: ReadonlyArray<WindowSpec> = [hourly, daily, last7Days];
+
+export const MAX_LIMIT = 100;
+
+export const DEFAULT_PARAMS: SubscriptionParams = {
+  dimension: 'category',
+  limit: 3,
+  status: ['paid'],
+  window: null,
+  metric: 'revenue',
+};
+
+// --- Parameters --------------------------------------------------------------
+
+/**
+ * Fill defaults and check a client's requested parameters.
+ * Returns an error message instead of throwing, for the `error` reply.
+ */
+export const normalizeParams = (
+  requested: Partial<SubscriptionParams> | undefined,
+): { ok: true; params: SubscriptionParams } | { ok: false; message: string } => {
+  const params = { ...DEFAULT_PARAMS, ...requested };
+
+  if (!Object.hasOwn(DIMENSIONS, params.dimension)) {
+    return { ok: false, message: `Unknown dimension "${params.dimension}" (use ${Object.keys(DIMENSIONS).join(', ')})` };
+  }
+  if (!Number.isInteger(params.limit) || params.limit < 1 || params.limit > MAX_LIMIT) {
+    return { ok: false, message: `limit must be an integer between 1 and ${MAX_LIMIT}` };
+  }
+  if (!Array.isArray(params.status) || params.status.length === 0
+      || !params.status.every(s => ORDER_STATUSES.includes(s))) {
+    return { ok: false, message: `status must be a non-empty list of ${ORDER_STATUSES.join(', ')}` };
+  }
+  if (params.window !== null && !WINDOWS.some(w => w.name === params.window)) {
+    return { ok: false, message: `Unknown window "${params.window}" (use ${WINDOWS.map(w => w.name).join(', ')} or null)` };
+  }
+  if (!METRICS.includes(params.metric)) {
+    return { ok: false, message: `Unknown metric "${params.metric}" (use ${METRICS.join(', ')})` };
+  }
+  if (params.window !== null && params.metric !== 'revenue') {
+    return { ok: false, message: `Windowed leaderboards rank by revenue only; use window null for metric "${params.metric}"` };
+  }
+
+  return {
+    ok: true,
+    params: { ...params, status: [...new Set(params.status)].toSorted() },
+  };
+};
+
+/**
+ * Canonical id for a parameter set: equal parameters, equal id
+ */
+export const subscriptionKey = ({ dimension, limit, status, window, metric }: SubscriptionParams): string =>
+  [dimension, limit, status.join('+'), window ?? 'all-time', metric].join(':');
+
+// --- Per-subscription fold ---------------------------------------------------
+
+export type LeaderboardView = {
+  window?: { start: string; end: string };
+  /** First page of the cycle counted; later than 0 means earlier pages are missing */
+  fromPage: number;
+  top: LeaderboardEntry[];
+};
+
+/**
+ * Serializable fold contents: the open windows, or the metric states per key
+ * with the last counted version of every open order (older checkpoints have
+ * no `open`)
+ */
+export type FoldState =
+  | { windows: WindowState<string> }
+  | { groups: Array<readonly [string, unknown]>; open?: Array<readonly [id: string, at: number, order: Order]> };
+
+/** How an all-time fold groups a page; folds with equal groupings share it */
+type Grouping = MetricFoldTask['groups'][number];
+
+const groupingKey = ({ dimension, status }: Grouping) => `${dimension}:${status.join('+')}`;
+
+/** One page as the folds see it */
+type Page = {
+  orders: ReadonlyArray<Order>;
+  /** The last version of every order in the page */
+  latest: ReadonlyArray<Order>;
+  /** `latest` grouped into metric states per key, by `groupingKey` */
+  groups: Map<string, Map<string, MetricStates>>;
+};
+
+type Fold = {
+  fromPage: number;
+  /** All-time folds only: what the page has to be grouped by */
+  grouping?: Grouping;
+  push: (page: Page) => void;
+  view: () => LeaderboardView;
+  state: () => FoldState;
+};
+
+const createFold = (
+  params: SubscriptionParams,
+  fromPage: number,
+  state?: FoldState,
+  { settleAfterMs = Infinity }: SettleOptions = {},
+): Fold => {
+  const key = DIMENSIONS[params.dimension];
+  const counts = (order: Order) => params.status.includes(order.status);
+
+  const spec = WINDOWS.find(w => w.name === params.window);
+  if (spec) {
+    // Closed windows are never shown, so they are not kept for anyone to read
+    const windowed: WindowedTopN<string> = createWindowedTopN(defineAggregation({ key, filter: counts }), [spec], params.limit, {
+      allowedLateness: HOUR,
+      state: state && 'windows' in state ? state.windows : undefined,
+      keepClosed: false,
+    });
+    return {
+      fromPage,
+      push: ({ orders }) => windowed.push(orders),
+      view: () => {
+        const [current] = windowed.current();
+        return current
+          ? { window: { start: current.start, end: current.end }, fromPage, top: current.top.map(([key, sum]) => ({ key, sum })) }
+          : { fromPage, top: [] };
+      },
+      state: () => ({ windows: windowed.state() }),
+    };
+  }
+
+  // All time: every metric in one pass, ranked by the chosen one. Like the
+  // ledger, the fold remembers the last counted version of every open order
+  // and takes it back out when a later version arrives.
+  const grouping: Grouping = { dimension: params.dimension, status: params.status };
+  const restored = state && 'groups' in state ? state : undefined;
+  let groups = new Map(restored?.groups.map(([group, saved]) => [group, allMetrics.load(saved)] as const));
+  const open = new Map(restored?.open?.map(([id, at, order]) => [id, { at, order }] as const));
+  let newest = open.values().reduce((max, { at }) => Math.max(max, at), -Infinity);
+  const merge = mergeGroups<string, MetricStates>(allMetrics);
+
+  // A key left without orders is dropped, with the metrics that could not forget them
+  const retract = (order: Order) => {
+    Map.groupBy(order.items, item => key(order, item)).forEach((items, group) => {
+      const left = allMetrics.remove(groups.get(group)!, order, items);
+      if (allMetrics.valueOf(left, 'orders') > 0) groups.set(group, left);
+      else groups.delete(group);
+    });
+  };
+
+  return {
+    fromPage,
+    grouping,
+    push: page => {
+      const taken: Order[] = [];
+      for (const order of page.latest) {
+        const at = Date.parse(order.createdAt);
+        const before = open.get(order.id);
+        if (!before && at < newest - settleAfterMs) {
+          if (counts(order)) taken.push(order);   // in the page's groups, but settled or too late
+          continue;
+        }
+        newest = Math.max(newest, at);
+        if (before) taken.push(before.order);
+        if (counts(order)) open.set(order.id, { at: before?.at ?? at, order });
+        else open.delete(order.id);
+      }
+      groups = merge(groups, page.groups.get(groupingKey(grouping)) ?? new Map());
+      taken.forEach(retract);
+      settleOpen(open, newest - settleAfterMs);
+    },
+    view: () => ({
+      fromPage,
+      top: topMetrics(allMetrics, params.metric, groups, params.limit)
+        .map(({ key, values }) => ({ key, sum: values.revenue, metrics: values })),
+    }),
+    state: () => ({
+      groups: groups.entries().map(([group, states]) => [group, allMetrics.save(states)] as const).toArray(),
+      open: open.entries().map(([id, { at, order }]) => [id, at, order] as const).toArray(),
+    }),
+  };
+};
+
+/**
+ * Group the last versions of a page's orders for every distinct grouping,
+ * the way `foldMetrics` does on the pool
+ */
+const groupPage = (latest: ReadonlyArray<Order>, groupings: ReadonlyArray<Grouping>) =>
+  new Map(groupings.map(({ dimension, status }) => [
+    groupingKey({ dimension, status }),
+    foldGroups<string, MetricStates>({ key: DIMENSIONS[dimension], filter: order => status.includes(order.status) }, allMetrics)(latest),
+  ] as const));
+
+// --- Registry ----------------------------------------------------------------
+
+type Subscription<C> = {
+  params: SubscriptionParams;
+  fold: Fold;
+  subscribers: Set<C>;
+};
+
+/** Serializable registry contents, for checkpoints */
+export type SubscriptionState = Array<{ params: SubscriptionParams; fromPage: number; fold: FoldState }>;
+
+export type SubscriptionRegistry<C> = {
+  /** Join (or create) the aggregation for `params`; returns its id */
+  subscribe: (client: C, params: SubscriptionParams) => string;
+  /** Returns false when the client was not subscribed */
+  unsubscribe: (client: C, key: string) => boolean;
+  /** Remove a disconnected client from every subscription */
+  drop: (client: C) => void;
+  /** Feed the cycle's next page of validated orders to every aggregation */
+  push: (orders: ReadonlyArray<Order>) => Promise<void>;
+  /** Start every aggregation over at page 0 (e.g. at the start of a new cycle) */
+  reset: () => void;
+  view: (key: string) => LeaderboardView | undefined;
+  /** Live subscriptions with their subscribers */
+  entries: () => Array<{ key: string; params: SubscriptionParams; subscribers: ReadonlySet<C> }>;
+  state: () => SubscriptionState;
+};
+
+/**
+ * Aggregations are created on first subscribe and discarded with their last
+ * subscriber, so the cost scales with distinct parameter sets, not clients.
+ * A new aggregation counts from the next page onwards, and its view says
+ * from which page. `nextPage` is the cycle's next page when the registry is
+ * created; aggregations restored from `state` keep counting without
+ * subscribers until someone subscribes again or the cycle ends.
+ *
+ *
+ * All-time aggregations reconcile order versions like the ledger and settle
+ * orders after `settleAfterMs`. Each page is grouped once per distinct
+ * dimension and status filter among them; with `foldMetrics` (e.g.
+ * `metricFolder(pool)`) that happens there, and only the merging here.
+ * Windowed ones always fold here. A page is applied to every aggregation
+ * after `foldMetrics` resolves, or not at all when it rejects.
+ */
+export const createSubscriptionRegistry = <C>(
+  { state = [], nextPage = 0, foldMetrics, settleAfterMs }: SettleOptions & {
+    state?: SubscriptionState;
+    nextPage?: number;
+    foldMetrics?: (task: MetricFoldTask) => Promise<MetricFoldResult>;
+  } = {},
+): SubscriptionRegistry<C> => {
+  const settle = { settleAfterMs };
+  const subscriptions = new Map(state.map(({ params, fromPage, fold }): [string, Subscription<C>] =>
+    [subscriptionKey(params), { params, fold: createFold(params, fromPage, fold, settle), subscribers: new Set() }]));
+  let pages = nextPage;
+
+  const unsubscribe = (client: C, key: string): boolean => {
+    const subscription = subscriptions.get(key);
+    if (!subscription?.subscribers.delete(client)) return false;
+    if (subscription.subscribers.size === 0) subscriptions.delete(key);
+    return true;
+  };
+
+  return {
+    subscribe: (client, params) => {
+      const key = subscriptionKey(params);
+      const subscription = subscriptions.get(key)
+        ?? { params, fold: createFold(params, pages, undefined, settle), subscribers: new Set<C>() };
+      subscription.subscribers.add(client);
+      subscriptions.set(key, subscription);
+      return key;
+    },
+    unsubscribe,
+    drop: client => subscriptions.keys().toArray().forEach(key => unsubscribe(client, key)),
+    push: async orders => {
+      const page = pages++;   // aggregations created while this page is folded start at the next one
+      const folds = subscriptions.values().map(s => s.fold).toArray();
+      const latest = [...new Map(orders.map(order => [order.id, order])).values()];
+      const groupings = [...new Map(folds.flatMap(({ grouping }) => grouping ? [[groupingKey(grouping), grouping] as const] : [])).values()];
+
+      // Nothing is applied until the pool has answered: a page it fails is
+      // retried as a whole, so no aggregation may have counted it already
+      let groups: Page['groups'];
+      try {
+        groups = foldMetrics && groupings.length > 0
+          ? new Map((await foldMetrics({ orders: latest, groups: groupings })).map((result, i) => [
+              groupingKey(groupings[i]!),
+              new Map(result.map(([group, saved]) => [group, allMetrics.load(saved)])),
+            ] as const))
+          : groupPage(latest, groupings);
+      } catch (err) {
+        pages = page;
+        throw err;
+      }
+
+      folds.forEach(fold => fold.push({ orders, latest, groups }));
+    },
+    reset: () => {
+      pages = 0;
+      subscriptions.forEach((s, key) => {
+        if (s.subscribers.size === 0) subscriptions.delete(key);
+        else s.fold = createFold(s.params, 0, undefined, settle);
+      });
+    },
+    view: key => subscriptions.get(key)?.fold.view(),
+    entries: () => subscriptions.entries()
+      .filter(([, { subscribers }]) => subscribers.size > 0)
+      .map(([key, { params, subscribers }]) => ({ key, params, subscribers }))
+      .toArray(),
+    state: () => subscriptions.values()
+      .map(({ params, fold }) => ({ params, fromPage: fold.fromPage, fold: fold.state() }))
+      .toArray(),
+  };
+};
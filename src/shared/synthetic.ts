@@ -0,0 +1,277 @@
+/**
+ * Seeded synthetic orders for large and skewed workloads
+ *
+ * The mock pages in `data.ts` are five orders; this generator produces as
+ * many as you like, deterministically. Order `i` is a pure function of the
+ * seed and `i`, so the same seed gives the same stream on every machine,
+ * and a stream can be resumed at any page without replaying the ones
+ * before it. SKU and customer popularity follow a Zipf distribution, a
+ * small share of positions refund an earlier paid order (a later version
+ * of the same id, as a real feed would send it), and `createdAt` advances
+ * at a fixed event-time rate with optional out-of-order jitter.
+ */
+
+import type { Order, LineItem } from './types';
+import { ORDER_STATUSES } from './validation';
+import { setImmediate } from 'node:timers/promises';
+import { delay } from './abort';
+
+export type SyntheticOptions = {
+  seed: number;
+  count: number;               // orders in the stream (Infinity = unbounded)
+  customers: number;
+  skus: number;
+  categories: number;
+  skew: number;                // Zipf exponent of SKU and customer popularity (0 = uniform)
+  maxItems: number;            // line items per order: 1..maxItems
+  ordersPerSecond: number;     // event-time rate at which `createdAt` advances
+  start: string;               // `createdAt` of the first order
+  jitterMs: number;            // `createdAt` up to this much earlier, so events arrive out of order
+  refundRate: number;          // share of positions that refund an earlier paid order
+  statusMix: Readonly<Record<Order['status'], number>>;  // weights of new orders' statuses
+  delayMs: number;             // wall-clock pause before each page
+};
+
+export const DEFAULT_SYNTHETIC: SyntheticOptions = {
+  seed: 1,
+  count: Infinity,
+  customers: 10_000,
+  skus: 1_000,
+  categories: 12,
+  skew: 1.1,
+  maxItems: 4,
+  ordersPerSecond: 1,
+  start: '2025-08-01T00:00:00Z',
+  jitterMs: 0,
+  refundRate: 0.02,
+  statusMix: { paid: 0.85, pending: 0.08, cancelled: 0.03, refunded: 0.04 },
+  delayMs: 0,
+};
+
+// A refund looks this many positions back at most
+const REFUND_WINDOW = 1_000;
+// SKUs by popularity rank whose category and price are kept once computed
+const SKU_CACHE_SIZE = 10_000;
+
+const CATEGORY_NAMES = [
+  'books', 'tools', 'food', 'toys', 'garden', 'music', 'sports', 'beauty',
+  'games', 'office', 'pets', 'outdoor', 'kitchen', 'baby', 'health', 'auto',
+];
+
+// --- Deterministic randomness -----------------------------------------------
+
+/**
+ * 32-bit finalizer (murmur3) of two inputs
+ */
+const mix = (a: number, b: number): number => {
+  let h = Math.imul(a ^ Math.imul(b, 0x9e3779b1), 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+/**
+ * Hash of the seed, a purpose (`salt`) and an index up to 2^53
+ */
+const hash = (seed: number, salt: number, index: number): number =>
+  mix(mix(mix(seed, salt), index >>> 0), Math.floor(index / 2 ** 32));
+
+/**
+ * Small fast PRNG (mulberry32): uniform numbers in [0, 1)
+ */
+export const mulberry32 = (state: number) => (): number => {
+  state = (state + 0x6d2b79f5) | 0;
+  let t = Math.imul(state ^ (state >>> 15), 1 | state);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+};
+
+/**
+ * Sampler of ranks 0..n-1 with P(rank) ∝ 1 / (rank + 1)^exponent
+ * (inverse CDF, binary search)
+ */
+export const zipf = (n: number, exponent: number) => {
+  const cdf = new Float64Array(n);
+  let sum = 0;
+  for (let rank = 0; rank < n; rank++) cdf[rank] = sum += 1 / (rank + 1) ** exponent;
+  return (u: number): number => {
+    const target = u * sum;
+    let lo = 0;
+    let hi = n - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (cdf[mid]! < target) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+};
+
+// --- Generator ---------------------------------------------------------------
+
+const SALT_POSITION = 1;
+const SALT_ORDER = 2;
+const SALT_SKU = 3;
+
+/**
+ * Random access to a synthetic stream: `orderAt(i)` is the `i`-th order
+ */
+export const createOrderGenerator = (options: Partial<SyntheticOptions> = {}) => {
+  const opts = { ...DEFAULT_SYNTHETIC, ...options };
+  const { seed, customers, skus, categories, maxItems, jitterMs, refundRate, statusMix } = opts;
+  const startMs = Date.parse(opts.start);
+  const spacingMs = 1000 / opts.ordersPerSecond;
+  const pickSku = zipf(skus, opts.skew);
+  const pickCustomer = zipf(customers, opts.skew);
+  const statusTotal = ORDER_STATUSES.reduce((sum, status) => sum + statusMix[status], 0);
+
+  const categoryName = (index: number) => CATEGORY_NAMES[index] ?? `category-${index + 1}`;
+
+  // Fixed per SKU: its category and a log-uniform price from 1.99 to 499.99
+  // (the most popular ones are cached: under skew they are in most orders)
+  const skuCache = new Map<number, Omit<LineItem, 'qty'>>();
+  const skuItem = (rank: number): Omit<LineItem, 'qty'> => {
+    const cached = skuCache.get(rank);
+    if (cached) return cached;
+    const random = mulberry32(hash(seed, SALT_SKU, rank));
+    const item = {
+      sku: `SKU-${String(rank + 1).padStart(5, '0')}`,
+      category: categoryName(Math.floor(random() * categories)),
+      unitPrice: Math.round(Math.exp(Math.log(199) + random() * (Math.log(49_999) - Math.log(199)))),
+    };
+    if (rank < SKU_CACHE_SIZE) skuCache.set(rank, item);
+    return item;
+  };
+
+  const pickStatus = (u: number): Order['status'] => {
+    let target = u * statusTotal;
+    for (const status of ORDER_STATUSES) {
+      target -= statusMix[status];
+      if (target < 0) return status;
+    }
+    return 'paid';
+  };
+
+  // A new order, as first sent
+  const newOrder = (index: number): Order => {
+    const random = mulberry32(hash(seed, SALT_ORDER, index));
+    const createdAt = startMs + index * spacingMs - random() * jitterMs;
+    const status = pickStatus(random());
+    const customer = pickCustomer(random());
+    const lines = 1 + Math.floor(random() * maxItems);
+    return {
+      id: `o${index + 1}`,
+      customerId: `c${customer + 1}`,
+      createdAt: new Date(Math.round(createdAt)).toISOString(),
+      status,
+      items: Array.from({ length: lines }, () => ({
+        ...skuItem(pickSku(random())),
+        qty: 1 + Math.floor(random() ** 3 * 4),  // mostly 1, sometimes up to 4
+      })),
+    };
+  };
+
+  // Which earlier order position `index` refunds, if any
+  const refundTarget = (index: number): number | undefined => {
+    if (refundRate === 0 || index === 0) return undefined;
+    const random = mulberry32(hash(seed, SALT_POSITION, index));
+    if (random() >= refundRate) return undefined;
+    return index - 1 - Math.floor(random() * Math.min(index, REFUND_WINDOW));
+  };
+
+  return (index: number): Order => {
+    const target = refundTarget(index);
+    // Only a paid order that was actually sent can be refunded
+    if (target !== undefined && refundTarget(target) === undefined) {
+      const original = newOrder(target);
+      if (original.status === 'paid') return { ...original, status: 'refunded' };
+    }
+    return newOrder(index);
+  };
+};
+
+/**
+ * Synthetic orders from position `from` on (unbounded unless `count` is set)
+ */
+export function* syntheticOrders(options: Partial<SyntheticOptions> = {}, from = 0): IterableIterator<Order> {
+  const orderAt = createOrderGenerator(options);
+  const count = options.count ?? DEFAULT_SYNTHETIC.count;
+  for (let index = from; index < count; index++) yield orderAt(index);
+}
+
+/**
+ * Pages of synthetic orders, a drop-in for `fetchOrderPages()`; page `fromPage`
+ * starts at order `fromPage * pageSize`, without generating the ones before
+ */
+export async function* syntheticOrderPages(
+  options: Partial<SyntheticOptions>,
+  { pageSize, fromPage = 0, signal }: { pageSize: number; fromPage?: number; signal?: AbortSignal },
+): AsyncIterable<Order[]> {
+  const orderAt = createOrderGenerator(options);
+  const { count, delayMs } = { ...DEFAULT_SYNTHETIC, ...options };
+  for (let start = fromPage * pageSize; start < count; start += pageSize) {
+    // Even without a delay, let timers and sockets run between pages
+    if (delayMs > 0) await delay(delayMs, signal);
+    else await setImmediate();
+    signal?.throwIfAborted();
+    yield Array.from({ length: Math.min(pageSize, count - start) }, (_, i) => orderAt(start + i));
+  }
+}
+
+// --- Spec strings ------------------------------------------------------------
+
+const number = (min: number, max = Infinity, integer = false) => (name: string, raw: string): number => {
+  const value = raw === 'Infinity' ? Infinity : Number(raw);
+  const ok = raw.trim() !== '' && value >= min && value <= max && (!integer || Number.isInteger(value) || value === Infinity);
+  if (!ok) {
+    throw new RangeError(`Synthetic option ${name} must be ${integer ? 'an integer' : 'a number'} >= ${min}${max === Infinity ? '' : ` and <= ${max}`}, got "${raw}"`);
+  }
+  return value;
+};
+
+const parsers: Record<Exclude<keyof SyntheticOptions, 'statusMix' | 'start'>, (name: string, raw: string) => number> = {
+  seed: number(-(2 ** 31), 2 ** 32, true),
+  count: number(0, Infinity, true),
+  customers: number(1, 10_000_000, true),
+  skus: number(1, 10_000_000, true),
+  categories: number(1, 1_000, true),
+  skew: number(0),
+  maxItems: number(1, 100, true),
+  ordersPerSecond: number(Number.MIN_VALUE),
+  jitterMs: number(0),
+  refundRate: number(0, 1),
+  delayMs: number(0),
+};
+
+/**
+ * Options from a spec such as `synthetic?seed=7&count=1000000&skew=1.3&refunded=0.1`;
+ * the status weights are set by name (`paid`, `pending`, `cancelled`, `refunded`)
+ */
+export const parseSyntheticSpec = (spec: string): Partial<SyntheticOptions> => {
+  const query = new URLSearchParams(spec.includes('?') ? spec.slice(spec.indexOf('?') + 1) : '');
+  const options: Partial<SyntheticOptions> = {};
+  let statusMix: Record<Order['status'], number> | undefined;
+
+  for (const [name, raw] of query) {
+    if (name === 'start') {
+      if (Number.isNaN(Date.parse(raw))) throw new RangeError(`Synthetic option start must be an ISO date-time, got "${raw}"`);
+      options.start = raw;
+    } else if (ORDER_STATUSES.includes(name as Order['status'])) {
+      statusMix ??= { ...DEFAULT_SYNTHETIC.statusMix };
+      statusMix[name as Order['status']] = number(0)(name, raw);
+    } else if (Object.hasOwn(parsers, name)) {
+      const key = name as keyof typeof parsers;
+      options[key] = parsers[key](name, raw);
+    } else {
+      throw new Error(`Unknown synthetic option "${name}" (use ${[...Object.keys(parsers), 'start', ...ORDER_STATUSES].join(', ')})`);
+    }
+  }
+  if (statusMix) {
+    if (ORDER_STATUSES.every(status => statusMix[status] === 0)) throw new RangeError('Synthetic status weights must not all be 0');
+    options.statusMix = statusMix;
+  }
+  return options;
+};
+
+export const isSyntheticSpec = (target: string): boolean =>
+  target === 'synthetic' || target.startsWith('synthetic?');
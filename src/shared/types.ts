@@ -14,13 +14,14 @@ export type Order = {
   customerId: string;
   createdAt: string; // ISO
   status: 'paid' | 'pending' | 'cancelled' | 'refunded';
+  currency?: string; // ISO 4217 code of every unitPrice in the order; defaults to USD
   items: LineItem[];
 };
 
 export type ItemSale = {
   customerId: string;
   category: LineItem['category'];
-  total: number;
+  total: number; // minor units of the reporting currency
 };
 
 // --- Utility Types -----------------------------------------------------------
@@ -30,20 +31,242 @@ export type ItemSale = {
  */
 export type Category = LineItem['category'];
 
+/**
+ * Running counts of records that passed / failed runtime validation
+ */
+export type IntakeStats = { accepted: number; rejected: number };
+
+/**
+ * Revenue split for order-state-aware aggregation (minor units);
+ * `net = gross - refunded`
+ */
+export type RevenueTotals = { gross: number; refunded: number; net: number };
+
+/**
+ * Ranked `[key, total]` pairs, highest first
+ */
+export type RankedSnapshot<K = string, V = number> = ReadonlyArray<readonly [K, V]>;
+
 /**
  * Snapshot data structure for live dashboard updates
  */
-export type CategorySnapshot = ReadonlyArray<readonly [string, number]>;
+export type CategorySnapshot = RankedSnapshot<string>;
+
+/**
+ * Grouping dimensions a client can subscribe to
+ */
+export type Dimension = 'category' | 'customerId' | 'sku' | 'day';
+
+/**
+ * Per-group metrics a leaderboard can show and rank by (amounts in minor
+ * units; `customers`, `p50Line` and `p95Line` are sketch estimates)
+ */
+export type Metric =
+  | 'revenue'      // sum of line values
+  | 'orders'       // orders with at least one line in the group
+  | 'units'        // sum of line quantities
+  | 'aov'          // average order value: revenue / orders
+  | 'minOrder'     // smallest order value in the group
+  | 'maxOrder'     // largest order value in the group
+  | 'customers'    // distinct customers (HyperLogLog)
+  | 'p50Line'      // median line value (quantile sketch)
+  | 'p95Line';     // 95th percentile line value
+
+/**
+ * Parameters of a leaderboard subscription; clients with equal parameters
+ * share one server-side aggregation
+ */
+export type SubscriptionParams = {
+  dimension: Dimension;
+  limit: number;
+  status: ReadonlyArray<Order['status']>;  // orders counted
+  window: string | null;                   // window spec name, or all-time
+  metric: Metric;                          // ranked by (all-time leaderboards only)
+};
+
+/**
+ * One row of a subscribed leaderboard: `sum` is always revenue, `metrics`
+ * (all-time leaderboards) has every metric of the group
+ */
+export type LeaderboardEntry = { key: string; sum: number; metrics?: Readonly<Record<Metric, number>> };
+
+/**
+ * One row of the live category leaderboard (amounts in minor units)
+ */
+export type CategoryEntry = { category: string; sum: number; gross?: number; refunded?: number };
+
+/**
+ * One recorded leaderboard snapshot, as kept in the history log
+ */
+export type SnapshotRecord = {
+  at: string;
+  seq: number;
+  pageIndex: number;
+  items: CategoryEntry[];
+  currency?: string;
+  intake?: IntakeStats;
+};
+
+/**
+ * A category's secondary aggregations, for drilling down from the leaderboard
+ * (amounts in minor units of the reporting currency)
+ */
+export type CategoryDetail = {
+  category: string;
+  net: number;
+  orders: number;
+  units: number;
+  aov: number;
+  topSkus: Array<{ key: string; sum: number; qty: number }>;
+  topCustomers: Array<{ key: string; sum: number; orders: number }>;
+};
+
+/**
+ * RFM segment of a customer, from its recency / frequency / monetary scores
+ */
+export type RfmSegment = 'champions' | 'loyal' | 'new' | 'promising' | 'at-risk' | 'hibernating' | 'needs-attention';
+
+/**
+ * Customer analytics over paid orders (amounts in minor units of the
+ * reporting currency). Recency is measured from `asOf`, the newest order
+ * time seen, so replayed history is scored as it was at the time.
+ */
+export type CustomerAnalytics = {
+  asOf?: string;
+  customers: number;         // with at least one paid order
+  repeatCustomers: number;   // with two or more
+  segments: Array<{ segment: RfmSegment; customers: number; net: number }>;
+  /** Monthly acquisition cohorts: `active[k]` ordered `k` months after their first month */
+  cohorts: Array<{ cohort: string; customers: number; active: number[] }>;
+  topCustomers: Array<{
+    customerId: string;
+    net: number;
+    orders: number;
+    firstOrderAt: string;
+    lastOrderAt: string;
+    segment: RfmSegment;
+  }>;
+};
+
+/**
+ * Where an order feed is: `stalled` is waiting longer than expected for its
+ * next page, `retrying` backs off after a failed page fetch, `failed`
+ * stopped with an error (the other feeds carry on)
+ */
+export type SourceState = 'waiting' | 'streaming' | 'stalled' | 'retrying' | 'done' | 'failed';
+
+/**
+ * Circuit breaker of a feed: `open` rejects calls for a while, `half-open`
+ * lets one trial call through
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type SourceStatus = {
+  source: string;
+  state: SourceState;
+  pages: number;         // pages received in this run
+  lastPageAt?: string;
+  error?: string;
+  circuit?: CircuitState;
+  attempt?: number;      // failed attempts at the current page
+  retryAt?: string;
+};
+
+/**
+ * One feed's status together with its own slice of the leaderboard
+ */
+export type SourceView = SourceStatus & { intake: IntakeStats; items: CategoryEntry[] };
+
+/**
+ * Machine-readable reason of an `error` message
+ */
+export type ErrorCode = 'bad-request' | 'unsupported-protocol' | 'stream-failed';
 
 /**
  * WebSocket message types for client-server communication
  */
 export type WebSocketMessage =
-  | { type: 'hello'; msg: string }
+  | { type: 'hello'; msg: string; protocol?: number }  // negotiated protocol version
+  | {
+      type: 'top-categories';   // full snapshot: on connect, on resync
+      at: string;
+      seq?: number;  // monotonically increasing across cycles and restarts
+      pageIndex: number;
+      items: CategoryEntry[];
+      currency?: string; // of every amount above, in minor units
+      intake?: IntakeStats;
+    }
+  | {
+      type: 'top-categories-delta';  // changes since snapshot `seq - 1`
+      at: string;
+      seq: number;
+      pageIndex: number;
+      changed: CategoryEntry[];
+      added: CategoryEntry[];
+      removed: string[];
+      currency?: string;
+      intake?: IntakeStats;
+    }
   | {
-      type: 'top-categories';
+      type: 'top-windows';
       at: string;
       pageIndex: number;
-      items: Array<{ category: string; sum: number }>
+      watermark?: string;
+      late: { orders: number; total: number };
+      currency?: string;
+      windows: Array<{
+        window: string;
+        start: string;
+        end: string;
+        final: boolean;
+        items: Array<{ category: string; sum: number }>;
+      }>;
     }
-  | { type: 'error'; message: string; at: string };
+  | { type: 'subscribe'; requestId?: string; params: Partial<SubscriptionParams> }
+  | { type: 'unsubscribe'; subscription: string }
+  | { type: 'resync'; lastSeq?: number }
+  | { type: 'subscribed'; requestId?: string; subscription: string; params: SubscriptionParams }
+  | { type: 'unsubscribed'; subscription: string }
+  | {
+      type: 'leaderboard';
+      subscription: string;
+      at: string;
+      pageIndex: number;
+      fromPageIndex?: number;   // first page counted; later than 0: earlier pages of the cycle are missing
+      window?: { start: string; end: string };
+      currency?: string;
+      items: LeaderboardEntry[];
+    }
+  | { type: 'error'; message: string; at: string; requestId?: string; code?: ErrorCode }
+  | {
+      type: 'history-request';  // range of past snapshots; all bounds inclusive
+      requestId?: string;
+      fromSeq?: number;
+      toSeq?: number;
+      from?: string;
+      to?: string;
+      limit?: number;   // newest entries within the range
+    }
+  | {
+      type: 'history';
+      requestId?: string;
+      oldestSeq?: number;  // what the server still has
+      latestSeq?: number;
+      entries: SnapshotRecord[];
+    }
+  | { type: 'drilldown'; category: string | null; limit?: number }  // null closes it
+  | { type: 'category-detail'; at: string; pageIndex: number; currency?: string; detail: CategoryDetail }
+  | { type: 'sources'; at: string; currency?: string; sources: SourceView[] }  // per-feed status and top N
+  | { type: 'customers'; at: string; pageIndex: number; currency?: string; analytics: CustomerAnalytics }
+  | { type: 'ping'; t: number }   // client heartbeat; `t` is echoed back
+  | { type: 'pong'; t: number };
+
+/**
+ * Messages a client may send to the server
+ */
+export type ClientMessage = Extract<WebSocketMessage, { type: 'subscribe' | 'unsubscribe' | 'resync' | 'history-request' | 'drilldown' | 'ping' }>;
+
+/**
+ * Messages the server may send to a client
+ */
+export type ServerMessage = Exclude<WebSocketMessage, ClientMessage>;
@@ -0,0 +1,171 @@
+/**
+ * Runtime validation for incoming orders
+ *
+ * `Order` and `LineItem` only exist at compile time; anything read from a
+ * file or an API is checked here before it reaches a fold. Invalid records
+ * are routed to a dead-letter sink with structured reasons instead of
+ * silently corrupting the totals.
+ */
+
+import type { Order, LineItem, IntakeStats } from './types';
+import { isCurrencyCode, hasRate } from './money';
+
+// --- Result types ------------------------------------------------------------
+
+export type ValidationIssue = {
+  path: string;      // e.g. `items[1].qty`
+  message: string;
+};
+
+export type ValidationResult =
+  | { ok: true; order: Order }
+  | { ok: false; issues: ValidationIssue[] };
+
+/**
+ * A quarantined record together with why it was rejected
+ */
+export type Rejection = {
+  record: unknown;
+  issues: ValidationIssue[];
+  pageIndex?: number;
+  source?: string;   // feed it came from, when several are merged
+  at: string;
+};
+
+export type DeadLetterSink = (rejection: Rejection) => void;
+
+export const ORDER_STATUSES: ReadonlyArray<Order['status']> = ['paid', 'pending', 'cancelled', 'refunded'];
+
+export const emptyIntakeStats = (): IntakeStats => ({ accepted: 0, rejected: 0 });
+
+// --- Field checks ------------------------------------------------------------
+
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '';
+
+const isIsoDateTime = (value: unknown): value is string =>
+  typeof value === 'string' && ISO_DATE_TIME.test(value) && !Number.isNaN(Date.parse(value));
+
+const checkItem = (item: unknown, path: string): ValidationIssue[] => {
+  if (!isRecord(item)) return [{ path, message: 'line item must be an object' }];
+
+  return [
+    !isNonEmptyString(item.sku) && { path: `${path}.sku`, message: 'must be a non-empty string' },
+    !(Number.isSafeInteger(item.qty) && (item.qty as number) > 0)
+      && { path: `${path}.qty`, message: `must be a positive integer, got ${JSON.stringify(item.qty)}` },
+    !(Number.isSafeInteger(item.unitPrice) && (item.unitPrice as number) >= 0)
+      && { path: `${path}.unitPrice`, message: `must be a non-negative integer (minor units), got ${JSON.stringify(item.unitPrice)}` },
+    !isNonEmptyString(item.category) && { path: `${path}.category`, message: 'must be a non-empty string' },
+  ].filter((issue): issue is ValidationIssue => issue !== false);
+};
+
+/**
+ * One line for logs and error replies: `items[0].qty must be ...; status must be ...`
+ */
+export const formatIssues = (issues: ReadonlyArray<ValidationIssue>, root = 'value'): string =>
+  issues.map(i => `${i.path || root} ${i.message}`).join('; ');
+
+// --- Validators --------------------------------------------------------------
+
+/**
+ * Check an unknown value against the `Order` shape, collecting every issue
+ */
+export const validateOrder = (value: unknown): ValidationResult => {
+  if (!isRecord(value)) return { ok: false, issues: [{ path: '', message: 'order must be an object' }] };
+
+  const issues: ValidationIssue[] = [
+    !isNonEmptyString(value.id) && { path: 'id', message: 'must be a non-empty string' },
+    !isNonEmptyString(value.customerId) && { path: 'customerId', message: 'must be a non-empty string' },
+    !isIsoDateTime(value.createdAt)
+      && { path: 'createdAt', message: `must be an ISO 8601 date-time, got ${JSON.stringify(value.createdAt)}` },
+    !ORDER_STATUSES.includes(value.status as Order['status'])
+      && { path: 'status', message: `must be one of ${ORDER_STATUSES.join(', ')}, got ${JSON.stringify(value.status)}` },
+    value.currency !== undefined && !(isCurrencyCode(value.currency) && hasRate(value.currency))
+      && { path: 'currency', message: `must be a supported ISO 4217 code, got ${JSON.stringify(value.currency)}` },
+  ].filter((issue): issue is ValidationIssue => issue !== false);
+
+  if (!Array.isArray(value.items)) {
+    issues.push({ path: 'items', message: 'must be an array of line items' });
+  } else {
+    issues.push(...value.items.flatMap((item, i) => checkItem(item, `items[${i}]`)));
+  }
+
+  return issues.length === 0
+    ? { ok: true, order: value as Order }
+    : { ok: false, issues };
+};
+
+export const isLineItem = (value: unknown): value is LineItem =>
+  checkItem(value, '').length === 0;
+
+/**
+ * Split one page into valid orders and rejections (pure)
+ */
+export const partitionPage = (
+  page: ReadonlyArray<unknown>,
+  pageIndex?: number,
+): { valid: Order[]; rejected: Rejection[] } => {
+  const at = new Date().toISOString();
+  const valid: Order[] = [];
+  const rejected: Rejection[] = [];
+  for (const record of page) {
+    const result = validateOrder(record);
+    if (result.ok) valid.push(result.order);
+    else rejected.push({ record, issues: result.issues, pageIndex, at });
+  }
+  return { valid, rejected };
+};
+
+// --- Streaming adapters ------------------------------------------------------
+
+/**
+ * Sync path: pass valid orders through, quarantine the rest.
+ * `stats` is updated in place as the iterator is consumed.
+ */
+export function* validateOrders(
+  records: Iterable<unknown>,
+  deadLetter: DeadLetterSink = () => {},
+  stats: IntakeStats = emptyIntakeStats(),
+): Generator<Order, void, undefined> {
+  for (const record of records) {
+    const result = validateOrder(record);
+    if (result.ok) {
+      stats.accepted++;
+      yield result.order;
+    } else {
+      stats.rejected++;
+      deadLetter({ record, issues: result.issues, at: new Date().toISOString() });
+    }
+  }
+}
+
+/**
+ * Async path: validate each page, yielding only the valid orders
+ */
+export async function* validatePages(
+  pages: AsyncIterable<ReadonlyArray<unknown>>,
+  deadLetter: DeadLetterSink = () => {},
+  stats: IntakeStats = emptyIntakeStats(),
+): AsyncIterable<Order[]> {
+  let pageIndex = 0;
+  for await (const page of pages) {
+    const { valid, rejected } = partitionPage(page, pageIndex++);
+    stats.accepted += valid.length;
+    stats.rejected += rejected.length;
+    rejected.forEach(deadLetter);
+    yield valid;
+  }
+}
+
+/**
+ * Dead-letter sink that logs a one-line summary per rejected record
+ */
+export const logDeadLetter: DeadLetterSink = ({ record, issues, source }) => {
+  const id = isRecord(record) && typeof record.id === 'string' ? record.id : '<unknown>';
+  console.warn(`⚠️  Rejected order ${id}${source ? ` from ${source}` : ''}: ${formatIssues(issues, 'order')}`);
+};
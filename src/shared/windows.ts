@@ -0,0 +1,277 @@
+/**
+ * Event-time windowed aggregation on `Order.createdAt`
+ *
+ * Orders are assigned to tumbling or sliding windows by when they happened,
+ * not by when their page arrived. A watermark (max event time seen minus the
+ * allowed lateness) decides when a window is complete: until then,
+ * out-of-order orders still land in it; after that it is emitted one last
+ * time as final and dropped. Orders whose windows have all closed are
+ * counted as late instead of silently vanishing.
+ *
+ * Like the ledger, each open window remembers what every order added to it,
+ * so a later version of an order (say, refunded) replaces the earlier one's
+ * contribution instead of being ignored or counted on top.
+ */
+
+import type { Order, RankedSnapshot, IntakeStats } from './types';
+import type { Aggregation, StreamOptions } from './aggregation';
+import { topNFromMap, processPage } from './aggregation';
+import { partitionPage, emptyIntakeStats } from './validation';
+import { abortable } from './abort';
+
+// --- Window specs ------------------------------------------------------------
+
+export const MINUTE = 60_000;
+export const HOUR = 60 * MINUTE;
+export const DAY = 24 * HOUR;
+
+/**
+ * `size` and `slide` in milliseconds; without `slide` the window tumbles.
+ * Window starts are aligned to multiples of `slide` since the epoch (UTC).
+ */
+export type WindowSpec = { name: string; size: number; slide?: number };
+
+export const hourly: WindowSpec = { name: 'hourly', size: HOUR };
+export const daily: WindowSpec = { name: 'daily', size: DAY };
+export const last7Days: WindowSpec = { name: 'last-7-days', size: 7 * DAY, slide: DAY };
+
+export type WindowSnapshot<K = string> = {
+  window: string;    // spec name
+  start: string;     // ISO, inclusive
+  end: string;       // ISO, exclusive
+  final: boolean;    // closed by the watermark; no further updates
+  top: RankedSnapshot<K>;
+};
+
+export type LateStats = { orders: number; total: number };
+
+type Contributions<K> = ReadonlyArray<readonly [K, number]>;
+
+/**
+ * Serializable contents of a windowed aggregator, for checkpoints: per spec,
+ * the open windows with their totals and what each order added (absent from
+ * checkpoints that predate it, so those orders are no longer reconciled)
+ */
+export type WindowState<K = string> = {
+  maxEventTime: number | null;
+  late: LateStats;
+  open: Array<readonly [string, ReadonlyArray<readonly [
+    start: number,
+    totals: Contributions<K>,
+    orders?: ReadonlyArray<readonly [orderId: string, contribution: Contributions<K>]>,
+  ]>]>;
+};
+
+export type WindowOptions<K = string> = {
+  /** How far behind the newest event an order may arrive and still count (ms) */
+  allowedLateness?: number;
+  /** Restore open windows from a checkpoint */
+  state?: WindowState<K>;
+  /** Hold closed windows until `snapshots` reads them (default); if not, they are dropped as they close */
+  keepClosed?: boolean;
+};
+
+/**
+ * Start times of every window of `spec` that contains `time`, newest first
+ */
+export const windowStarts = (time: number, { size, slide = size }: WindowSpec): number[] => {
+  const starts: number[] = [];
+  for (let start = Math.floor(time / slide) * slide; start > time - size; start -= slide) {
+    starts.push(start);
+  }
+  return starts;
+};
+
+// --- Windowed aggregator -----------------------------------------------------
+
+export type WindowedTopN<K> = {
+  /** Fold a batch of (already validated) orders and advance the watermark */
+  push: (orders: ReadonlyArray<Order>) => void;
+  /** Current window per spec, preceded by any windows closed since the last call */
+  snapshots: () => WindowSnapshot<K>[];
+  /** Current window per spec only; leaves closed windows for `snapshots` */
+  current: () => WindowSnapshot<K>[];
+  watermark: () => string | undefined;
+  late: () => LateStats;
+  state: () => WindowState<K>;
+};
+
+type OpenWindow<K> = { totals: Map<K, number>; orders: Map<string, Map<K, number>> };
+
+// Entries that drop back to zero are removed, so a refunded key leaves no trace
+const addTotals = <K>(target: Map<K, number>, totals: Map<K, number>, sign: 1 | -1) => {
+  for (const [key, value] of totals) {
+    const next = (target.get(key) ?? 0) + sign * value;
+    if (next === 0) target.delete(key);
+    else target.set(key, next);
+  }
+};
+
+/**
+ * Stateful windowed top-N. Memory is bounded by the number of open windows
+ * (about `(size + allowedLateness) / slide` per spec) times the keys and
+ * orders in each.
+ */
+export const createWindowedTopN = <K>(
+  aggregation: Aggregation<K>,
+  specs: ReadonlyArray<WindowSpec>,
+  limit: number,
+  { allowedLateness = 0, state, keepClosed = true }: WindowOptions<K> = {},
+): WindowedTopN<K> => {
+  const orderTotals = processPage(aggregation);
+  const restored = new Map(state?.open ?? []);
+  const open = new Map(specs.map(spec => [
+    spec,
+    new Map((restored.get(spec.name) ?? []).map(([start, totals, orders = []]): [number, OpenWindow<K>] => [start, {
+      totals: new Map(totals),
+      orders: new Map(orders.map(([id, contribution]) => [id, new Map(contribution)] as const)),
+    }])),
+  ] as const));
+  let maxEventTime = state?.maxEventTime ?? -Infinity;
+  let late: LateStats = state?.late ?? { orders: 0, total: 0 };
+  let closed: WindowSnapshot<K>[] = [];
+
+  const toSnapshot = (spec: WindowSpec, start: number, totals: Map<K, number>, final: boolean): WindowSnapshot<K> => ({
+    window: spec.name,
+    start: new Date(start).toISOString(),
+    end: new Date(start + spec.size).toISOString(),
+    final,
+    top: topNFromMap(totals, limit),
+  });
+
+  const push = (orders: ReadonlyArray<Order>): void => {
+    const watermark = maxEventTime - allowedLateness;   // fixed for the whole batch
+
+    for (const order of orders) {
+      const totals = orderTotals([order]);               // empty when filtered out
+      const time = Date.parse(order.createdAt);
+      let placed = false;
+
+      for (const [spec, windows] of open) {
+        for (const start of windowStarts(time, spec)) {
+          if (start + spec.size <= watermark) continue;   // window already closed
+          const window = windows.get(start) ?? { totals: new Map(), orders: new Map() };
+          const before = window.orders.get(order.id);
+          if (!before && totals.size === 0) continue;     // nothing to add or take back
+          if (before) addTotals(window.totals, before, -1);
+          addTotals(window.totals, totals, 1);
+          if (totals.size > 0) window.orders.set(order.id, totals);
+          else window.orders.delete(order.id);
+          windows.set(start, window);
+          placed = true;
+        }
+      }
+
+      if (!placed && totals.size > 0) {
+        late = {
+          orders: late.orders + 1,
+          total: late.total + totals.values().reduce((a, b) => a + b, 0),
+        };
+      }
+      maxEventTime = Math.max(maxEventTime, time);
+    }
+
+    const next = maxEventTime - allowedLateness;
+    for (const [spec, windows] of open) {
+      for (const [start, { totals }] of windows) {
+        if (start + spec.size > next) continue;
+        if (keepClosed) closed = [...closed, toSnapshot(spec, start, totals, true)];
+        windows.delete(start);
+      }
+    }
+  };
+
+  // Among open windows containing the newest event, the one ending soonest:
+  // "today" for tumbling days, "the 7 days up to now" for a sliding week
+  const current = (spec: WindowSpec, windows: Map<number, OpenWindow<K>>): WindowSnapshot<K> | undefined =>
+    windows.entries()
+      .filter(([start]) => start <= maxEventTime && maxEventTime < start + spec.size)
+      .toArray()
+      .toSorted(([a], [b]) => a - b)
+      .values()
+      .map(([start, { totals }]) => toSnapshot(spec, start, totals, false))
+      .take(1)
+      .toArray()[0];
+
+  const currentSnapshots = (): WindowSnapshot<K>[] =>
+    open.entries()
+      .flatMap(([spec, windows]) => {
+        const snapshot = current(spec, windows);
+        return snapshot ? [snapshot] : [];
+      })
+      .toArray();
+
+  const snapshots = (): WindowSnapshot<K>[] => {
+    const drained = closed;
+    closed = [];
+    return [...drained, ...currentSnapshots()];
+  };
+
+  return {
+    push,
+    snapshots,
+    current: currentSnapshots,
+    watermark: () =>
+      Number.isFinite(maxEventTime) ? new Date(maxEventTime - allowedLateness).toISOString() : undefined,
+    late: () => late,
+    state: () => ({
+      maxEventTime: Number.isFinite(maxEventTime) ? maxEventTime : null,
+      late,
+      open: open.entries()
+        .map(([spec, windows]) => [
+          spec.name,
+          windows.entries()
+            .map(([start, { totals, orders }]) => [
+              start,
+              [...totals],
+              orders.entries().map(([id, contribution]) => [id, [...contribution]] as const).toArray(),
+            ] as const)
+            .toArray(),
+        ] as const)
+        .toArray(),
+    }),
+  };
+};
+
+// --- Rolling stream ----------------------------------------------------------
+
+export type WindowProgress = {
+  watermark: string | undefined;
+  late: LateStats;
+  intake: IntakeStats;
+};
+
+/**
+ * Windowed counterpart of `streamTopN`: one top-N snapshot per window per page
+ */
+export const streamWindowedTopN = async <K>(
+  pages: AsyncIterable<ReadonlyArray<unknown>>,
+  aggregation: Aggregation<K>,
+  specs: ReadonlyArray<WindowSpec>,
+  limit: number,
+  onUpdate: (windows: WindowSnapshot<K>[], pageIndex: number, progress: WindowProgress) => void,
+  { deadLetter = () => {}, onPage = () => {}, resumeFrom, signal, ...windowOptions }: StreamOptions & WindowOptions<K> = {},
+): Promise<WindowedTopN<K>> => {
+  const windowed = createWindowedTopN(aggregation, specs, limit, windowOptions);
+  let intake = resumeFrom?.intake ?? emptyIntakeStats();
+  let pageIndex = resumeFrom?.pageIndex ?? 0;
+
+  for await (const page of abortable(pages, signal)) {
+    const { valid, rejected } = partitionPage(page, pageIndex);
+    rejected.forEach(deadLetter);
+    intake = {
+      accepted: intake.accepted + valid.length,
+      rejected: intake.rejected + rejected.length,
+    };
+
+    onPage(valid, pageIndex);
+    windowed.push(valid);
+    onUpdate(windowed.snapshots(), pageIndex++, {
+      watermark: windowed.watermark(),
+      late: windowed.late(),
+      intake,
+    });
+  }
+
+  return windowed;
+};
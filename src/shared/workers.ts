@@ -0,0 +1,190 @@
+/**
+ * A small pool of `worker_threads` and an order-preserving parallel map
+ *
+ * Tasks are queued and handed to whichever worker is idle, one at a time;
+ * tasks and results are structured-cloned, so they must be plain data.
+ * `mapInOrder` keeps several tasks in flight but yields results in input
+ * order, so a fold over them is as deterministic as the sequential one.
+ */
+
+import { Worker, parentPort } from 'node:worker_threads';
+import { availableParallelism } from 'node:os';
+import { raceAbort } from './abort';
+
+// --- Pool ----------------------------------------------------------------------
+
+export type WorkerPool<In, Out> = {
+  size: number;
+  run: (task: In) => Promise<Out>;
+  /** Reject queued tasks and stop every worker */
+  close: () => Promise<void>;
+};
+
+type Reply<Out> = { result: Out } | { error: string };
+
+type Job<In, Out> = {
+  task: In;
+  resolve: (result: Out) => void;
+  reject: (error: Error) => void;
+};
+
+/** One core stays with the main thread */
+export const defaultPoolSize = (): number => Math.max(1, availableParallelism() - 1);
+
+// Under tsx a TypeScript worker needs the loader registered before it is imported
+const startWorker = (script: URL, workerData: unknown): Worker =>
+  script.pathname.endsWith('.ts')
+    ? new Worker(
+        `import('tsx/esm/api').then(({ register }) => { register(); return import(${JSON.stringify(script.href)}); });`,
+        { eval: true, workerData },
+      )
+    : new Worker(script, { workerData });
+
+/**
+ * `size` workers running `script`, which answers tasks with `handleTasks`;
+ * each gets a clone of `workerData` (as `workerData` of `node:worker_threads`)
+ */
+export const createWorkerPool = <In, Out>(script: URL, size = defaultPoolSize(), workerData?: unknown): WorkerPool<In, Out> => {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new RangeError(`Worker pool size must be a positive integer, got ${size}`);
+  }
+  const queue: Job<In, Out>[] = [];
+  const idle: Worker[] = [];
+  const busy = new Map<Worker, Job<In, Out>>();
+  const workers = new Set<Worker>();
+  const answered = new WeakSet<Worker>();  // has replied to at least one task
+  const errors = new WeakMap<Worker, Error>();
+  let closed = false;
+  let failure: Error | undefined;
+
+  const dispatch = () => {
+    while (idle.length > 0 && queue.length > 0) {
+      const worker = idle.pop()!;
+      const job = queue.shift()!;
+      busy.set(worker, job);
+      worker.postMessage(job.task);
+    }
+  };
+
+  // Reject everything queued and stop the remaining workers
+  const fail = (error: Error) => {
+    closed = true;
+    failure = error;
+    queue.splice(0).forEach(job => job.reject(error));
+    workers.forEach(worker => void worker.terminate());
+  };
+
+  const spawn = () => {
+    const worker = startWorker(script, workerData);
+    workers.add(worker);
+    worker.on('message', (reply: Reply<Out>) => {
+      answered.add(worker);
+      const job = busy.get(worker);
+      busy.delete(worker);
+      if ('error' in reply) job?.reject(new Error(reply.error));
+      else job?.resolve(reply.result);
+      idle.push(worker);
+      dispatch();
+    });
+    worker.on('error', err => {
+      errors.set(worker, err);
+      busy.get(worker)?.reject(err);
+      busy.delete(worker);
+    });
+    // A worker that crashes after it has answered tasks is replaced; its task
+    // has already failed. One that dies before answering any (its script or
+    // the loader fails to start) would only die again, so the pool fails.
+    worker.on('exit', code => {
+      workers.delete(worker);
+      busy.get(worker)?.reject(new Error(`Worker exited with code ${code}`));
+      busy.delete(worker);
+      if (idle.includes(worker)) idle.splice(idle.indexOf(worker), 1);
+      if (closed) return;
+      if (!answered.has(worker)) {
+        fail(new Error(`Worker pool failed: a worker exited before answering a task (${errors.get(worker)?.message ?? `exit code ${code}`})`));
+        return;
+      }
+      spawn();
+      dispatch();
+    });
+    idle.push(worker);
+  };
+
+  for (let i = 0; i < size; i++) spawn();
+
+  return {
+    size,
+    run: task => closed
+      ? Promise.reject(failure ?? new Error('Worker pool is closed'))
+      : new Promise<Out>((resolve, reject) => {
+          queue.push({ task, resolve, reject });
+          dispatch();
+        }),
+    close: async () => {
+      closed = true;
+      queue.splice(0).forEach(job => job.reject(new Error('Worker pool is closed')));
+      await Promise.all([...workers].map(worker => worker.terminate()));
+    },
+  };
+};
+
+/**
+ * Worker side: answer every task posted by the pool with `handler(task)`
+ */
+export const handleTasks = <In, Out>(handler: (task: In) => Out | Promise<Out>) => {
+  parentPort?.on('message', async (task: In) => {
+    try {
+      parentPort!.postMessage({ result: await handler(task) } satisfies Reply<Out>);
+    } catch (err) {
+      parentPort!.postMessage({ error: err instanceof Error ? err.message : String(err) } satisfies Reply<Out>);
+    }
+  });
+};
+
+// --- Ordered parallel map --------------------------------------------------------
+
+/**
+ * `fn` over `items` with up to `concurrency` calls in flight, yielding the
+ * results in input order. A result that is ready is yielded without waiting
+ * for the source to produce the next item.
+ */
+export async function* mapInOrder<T, R>(
+  items: AsyncIterable<T>,
+  fn: (item: T, index: number) => Promise<R>,
+  { concurrency, signal }: { concurrency: number; signal?: AbortSignal },
+): AsyncGenerator<R, void, undefined> {
+  const iterator = items[Symbol.asyncIterator]();
+  const pending: Promise<R>[] = [];
+  let pulling: Promise<IteratorResult<T>> | undefined;
+  let exhausted = false;
+  let index = 0;
+
+  try {
+    for (;;) {
+      if (!exhausted && !pulling && pending.length < concurrency) pulling = iterator.next();
+      const head = pending[0];
+      if (!head && !pulling) return;
+
+      const next = await raceAbort(Promise.race([
+        ...(head ? [head.then(() => 'head' as const, () => 'head' as const)] : []),
+        ...(pulling ? [pulling.then(item => ({ item }))] : []),
+      ]), signal);
+
+      if (next === 'head') {
+        pending.shift();
+        yield await head!;
+        continue;
+      }
+      pulling = undefined;
+      if (next.item.done) {
+        exhausted = true;
+      } else {
+        const result = fn(next.item.value, index++);
+        result.catch(() => {});  // surfaces when it reaches the head
+        pending.push(result);
+      }
+    }
+  } finally {
+    if (!exhausted) void iterator.return?.()?.catch(() => {});
+  }
+}
@@ -10,21 +10,25 @@
  * - structuredClone for defensive immutability
  */
 
-import type {  LineItem, ItemSale } from './shared/types';
+import type {  LineItem, ItemSale, IntakeStats } from './shared/types';
 import { orders } from './shared/data';
+import { validateOrders, logDeadLetter } from './shared/validation';
+import { formatMoney } from './shared/money';
+import { lineRevenue } from './shared/aggregation';
 
 console.log('🚀 Step 1: Synchronous Lazy Pipeline\n');
 
 // --- Lazy FP pipeline: nothing executes until the terminal op ----------------
-const itemSales: Iterator<ItemSale> =
-  orders()                                 // lazy source (generator)
+const intake: IntakeStats = { accepted: 0, rejected: 0 };
+const itemSales: IteratorObject<ItemSale> =
+  validateOrders(orders(), logDeadLetter, intake) // lazy source + runtime check
     .filter(o => o.status === 'paid')      // lazy filter
     .map(o => structuredClone(o))          // lazy map; defensive immutability
     .flatMap(o =>                          // lazy expand order -> item sales
       o.items.flatMap<ItemSale>(it => [{
         customerId: o.customerId,
         category: it.category,
-        total: it.qty * it.unitPrice,
+        total: lineRevenue(o, it),
       }])
     );
 
@@ -37,7 +41,7 @@ const byCat: Map<LineItem['category'], ItemSale[]> =
 console.log('📊 Grouped sales by category:');
 for (const [category, sales] of byCat) {
   const total = sales.reduce((sum, sale) => sum + sale.total, 0);
-  console.log(`  ${category}: ${sales.length} sales, $${total.toLocaleString()}`);
+  console.log(`  ${category}: ${sales.length} sales, ${formatMoney(total)}`);
 }
 
 const top3 = byCat
@@ -49,9 +53,11 @@ const top3 = byCat
   .take(3)                                 // Iterator Helper method
   .toArray();                              // final materialization
 
+console.log(`\n🛂 Intake: ${intake.accepted} accepted, ${intake.rejected} rejected`);
+
 console.log('\n🏆 Top 3 Categories:');
 top3.forEach(([category, total], i) => {
-  console.log(`  ${i + 1}. ${category}: $${total.toLocaleString()}`);
+  console.log(`  ${i + 1}. ${category}: ${formatMoney(total)}`);
 });
 
 console.log('\n✅ Step 1 Complete - Lazy evaluation with Iterator Helpers');
@@ -7,19 +7,35 @@
  * - Async Iterator Helpers for paginated data
  * - Lazy async processing until materialization
  * - Array.fromAsync for collecting async iterables
+ * - Ctrl+C cancels the fetch through an AbortSignal
  */
 
 import type { ItemSale } from './shared/types';
-import { fetchOrderPages } from './shared/data';
+import { orderPagesFromArgs } from './shared/sources';
+import { validatePages, logDeadLetter, emptyIntakeStats } from './shared/validation';
+import { formatMoney } from './shared/money';
+import { lineRevenue } from './shared/aggregation';
+import { isAbortError } from './shared/abort';
 
 console.log('🚀 Step 2: Async Source with Async Iterator Helpers\n');
 
 // --- Using Array.fromAsync to collect async iterable -------------------------
 console.log('🔄 Using Array.fromAsync to collect paginated data...\n');
 
-// First, let's collect all orders using Array.fromAsync
-const allOrderPages = await Array.fromAsync(fetchOrderPages());
+// First, let's collect all orders using Array.fromAsync (invalid records quarantined)
+const controller = new AbortController();
+process.once('SIGINT', () => controller.abort());
+
+const intake = emptyIntakeStats();
+const allOrderPages = await Array.fromAsync(
+  validatePages(orderPagesFromArgs(undefined, { signal: controller.signal }), logDeadLetter, intake),
+).catch(err => {
+  if (!isAbortError(err, controller.signal)) throw err;
+  console.log('\n⏹️  Cancelled before all pages were collected');
+  process.exit(130);
+});
 console.log(`\n📦 Collected ${allOrderPages.length} pages`);
+console.log(`🛂 Intake: ${intake.accepted} accepted, ${intake.rejected} rejected`);
 
 // Now we can use regular Iterator Helpers on the flattened data
 const itemSales = allOrderPages
@@ -31,7 +47,7 @@ const itemSales = allOrderPages
     o.items.flatMap<ItemSale>(it => [{
       customerId: o.customerId,
       category: it.category,
-      total: it.qty * it.unitPrice,
+      total: lineRevenue(o, it),
     }])
   );
 
@@ -48,7 +64,7 @@ const byCat = Map.groupBy(salesArr, s => s.category); // groups in memory
 console.log('📈 Sales by category:');
 for (const [category, sales] of byCat) {
   const total = sales.reduce((sum, sale) => sum + sale.total, 0);
-  console.log(`  ${category}: ${sales.length} sales, $${total.toLocaleString()}`);
+  console.log(`  ${category}: ${sales.length} sales, ${formatMoney(total)}`);
 }
 
 const top3 = byCat.entries()
@@ -61,7 +77,7 @@ const top3 = byCat.entries()
 
 console.log('\n🏆 Top 3 Categories:');
 top3.forEach(([category, total], i) => {
-  console.log(`  ${i + 1}. ${category}: $${total.toLocaleString()}`);
+  console.log(`  ${i + 1}. ${category}: ${formatMoney(total)}`);
 });
 
 console.log('\n✅ Step 2 Complete - Array.fromAsync + Iterator Helpers');
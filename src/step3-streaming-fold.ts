@@ -7,17 +7,26 @@
  * - .reduce() directly on async iterator
  * - Constant memory usage O(categories), not O(sales)
  * - Streaming aggregation without intermediate arrays
+ * - Ctrl+C stops at a page boundary and still reports the totals so far
  */
 
 import type { LineItem, ItemSale } from './shared/types';
-import { fetchOrderPages } from './shared/data';
+import { orderPagesFromArgs } from './shared/sources';
+import { validatePages, logDeadLetter, emptyIntakeStats } from './shared/validation';
+import { formatMoney } from './shared/money';
+import { lineRevenue } from './shared/aggregation';
+import { isAbortError } from './shared/abort';
 
 console.log('🚀 Step 3: Streaming Fold (Constant Memory)\n');
 
 // --- Manual streaming fold (constant memory, no Array.fromAsync) -----------
 // Note: We DON'T use Array.fromAsync here because we want constant memory
+const intake = emptyIntakeStats();
+const controller = new AbortController();
+process.once('SIGINT', () => controller.abort());
+
 async function* createItemSales() {
-  for await (const page of fetchOrderPages()) {
+  for await (const page of validatePages(orderPagesFromArgs(undefined, { signal: controller.signal }), logDeadLetter, intake)) {
     for (const order of page) {
       if (order.status === 'paid') {
         const clonedOrder = structuredClone(order);
@@ -25,7 +34,7 @@ async function* createItemSales() {
           yield {
             customerId: clonedOrder.customerId,
             category: item.category,
-            total: item.qty * item.unitPrice,
+            total: lineRevenue(clonedOrder, item),
           } as ItemSale;
         }
       }
@@ -41,27 +50,35 @@ console.log('🔄 Starting streaming fold (constant memory)...\n');
 // --- Manual streaming fold: O(categories) memory instead of O(sales) -------
 const startTime = Date.now();
 let itemCount = 0;
+let lastProgress = 0;
 const totals = new Map<LineItem['category'], number>();
 
-for await (const sale of itemSales) {
-  itemCount++;
-  if (itemCount % 2 === 0) {
-    process.stdout.write(`\r📊 Processed ${itemCount} items...`);
+try {
+  for await (const sale of itemSales) {
+    itemCount++;
+    if (Date.now() - lastProgress >= 100) {  // a few updates a second, however fast items arrive
+      lastProgress = Date.now();
+      process.stdout.write(`\r📊 Processed ${itemCount} items...`);
+    }
+    totals.set(                              // update per item as it arrives
+      sale.category,
+      (totals.get(sale.category) ?? 0) + sale.total,
+    );
   }
-  totals.set(                              // update per item as it arrives
-    sale.category,
-    (totals.get(sale.category) ?? 0) + sale.total,
-  );
+} catch (err) {
+  if (!isAbortError(err, controller.signal)) throw err;
+  console.log('\n⏹️  Cancelled: the totals below cover the pages read so far');
 }
 
 const elapsed = Date.now() - startTime;
 console.log(`\n\n✅ Streaming complete: ${itemCount} items in ${elapsed}ms`);
 
+console.log(`🛂 Intake: ${intake.accepted} accepted, ${intake.rejected} rejected`);
 console.log(`💾 Memory usage: ${totals.size} categories (constant regardless of item count)`);
 
 console.log('\n📈 Final category totals:');
 for (const [category, total] of totals) {
-  console.log(`  ${category}: $${total.toLocaleString()}`);
+  console.log(`  ${category}: ${formatMoney(total)}`);
 }
 
 const top3 = totals.entries()                 // small structure → rank
@@ -73,7 +90,7 @@ const top3 = totals.entries()                 // small structure → rank
 
 console.log('\n🏆 Top 3 Categories:');
 top3.forEach(([category, total], i) => {
-  console.log(`  ${i + 1}. ${category}: $${total.toLocaleString()}`);
+  console.log(`  ${i + 1}. ${category}: ${formatMoney(total)}`);
 });
 
 console.log('\n✅ Step 3 Complete - True streaming without Array.fromAsync');
@@ -4,94 +4,112 @@
  * Step 4: Rolling Top-N Snapshots (Live Dashboard)
  *
  * Demonstrates:
- * - FP-style helper functions with arrow syntax
+ * - FP-style helper functions with arrow syntax (shared aggregation module)
  * - Rolling aggregation with live snapshots
- * - Constant memory top-N maintenance
+ * - Top-N maintenance in memory that follows the distinct keys, not the orders
+ * - Fixed-size Space-Saving sketch when the keys themselves are too many
  * - for-await boundary (where FP currently ends)
+ * - Cancellation with AbortSignal (Ctrl+C stops at a page boundary)
+ * - Mergeable metrics (count, AOV, min/max, HyperLogLog, quantiles) in one pass
  */
 
-import type { Order } from './shared/types';
-import { fetchOrderPages } from './shared/data';
+import { orderPagesFromArgs } from './shared/sources';
+import {
+  topNFromMap,
+  streamTopCategories,
+  streamTopN,
+  defineAggregation,
+  byCategory,
+  byCustomer,
+  bySku,
+} from './shared/aggregation';
+import { spaceSaving } from './shared/sketches';
+import { allMetrics, streamTopMetrics } from './shared/metrics';
+import { logDeadLetter } from './shared/validation';
+import { streamNetRevenueByCategory } from './shared/ledger';
+import { formatMoney } from './shared/money';
+import { isAbortError } from './shared/abort';
 
 console.log('🚀 Step 4: Rolling Top-N Snapshots\n');
 
-// --- Helper: keep only the top N entries (FP style) -------------------------
-const topNFromMap = <K>(map: Map<K, number>, n: number): Array<readonly [K, number]> =>
-  map.entries()
-    .toArray()
-    .toSorted((a, b) => b[1] - a[1])     // sort descending (immutable)
-    .values()                            // Array → Iterator
-    .take(n)                             // Iterator Helper method
-    .toArray();                          // final materialization
-
-// --- Page processing ---------------------------------------------------------
-const processPageToSales = (page: Order[]): Map<string, number> =>
-  page
-    .filter(o => o.status === 'paid')                    // declarative filter
-    .flatMap(o => o.items.map(it => ({                   // expand to item sales
-      category: it.category,
-      total: it.qty * it.unitPrice
-    })))
-    .reduce(                                             // aggregate by category
-      (acc, sale) => acc.set(
-        sale.category,
-        (acc.get(sale.category) ?? 0) + sale.total
-      ),
-      new Map<string, number>()
-    );
-
-// --- Combine two category total maps (pure function) ------------------------
-const mergeCategoryTotals = (
-  a: Map<string, number>,
-  b: Map<string, number>
-): Map<string, number> =>
-  b.entries().reduce(
-    (result, [category, total]) =>
-      result.set(category, (result.get(category) ?? 0) + total),
-    new Map(a) // defensive copy as initial value
-  );
-
-// --- Rolling stream ----------------------------------------------------------
-const streamTopCategories = async (
-  pages: AsyncIterable<Order[]>,
-  limit: number,
-  onUpdate: (snapshot: ReadonlyArray<readonly [string, number]>, pageIndex: number) => void,
-): Promise<Map<string, number>> => {
-  let runningTotals = new Map<string, number>();
-  let pageIndex = 0;
-
-  for await (const page of pages) {                      // still need async iteration
-    const pageTotals = processPageToSales(page);         // pure function
-    runningTotals = mergeCategoryTotals(runningTotals, pageTotals); // pure function
-
-    onUpdate(topNFromMap(runningTotals, limit), pageIndex++); // emit snapshot
-  }
-
-  return runningTotals;
-};
+// Helpers (topNFromMap, processPageToSales, mergeCategoryTotals) live in
+// src/shared/aggregation.ts so the server and this script share one copy.
 
 // --- Demo: Live snapshots ---------------------------------------------------
 console.log('📊 Starting rolling top-3 leaderboard...\n');
 
+// The same signal reaches the source (stops fetching) and the fold (stops folding)
+const controller = new AbortController();
+process.once('SIGINT', () => controller.abort());
+
 const finalTotals = await streamTopCategories(
-  fetchOrderPages(),
+  orderPagesFromArgs(undefined, { signal: controller.signal }),
   3,
-  (snapshot, pageIndex) => {
-    console.log(`📈 After page ${pageIndex + 1}:`);
+  (snapshot, pageIndex, intake) => {
+    console.log(`📈 After page ${pageIndex + 1} (${intake.accepted} accepted, ${intake.rejected} rejected):`);
     snapshot.forEach(([category, total], rank) => {
-      console.log(`  ${rank + 1}. ${category}: $${total.toLocaleString()}`);
+      console.log(`  ${rank + 1}. ${category}: ${formatMoney(total)}`);
     });
     console.log('');
-  }
-);
+  },
+  { deadLetter: logDeadLetter, signal: controller.signal },
+).catch(err => {
+  if (!isAbortError(err, controller.signal)) throw err;
+  console.log('⏹️  Cancelled between pages; the last snapshot above is complete');
+  process.exit(130);
+});
 
 console.log('🎯 Final leaderboard:');
 const finalTop3 = topNFromMap(finalTotals, 3);
 finalTop3.forEach(([category, total], i) => {
-  console.log(`  🏆 ${i + 1}. ${category}: $${total.toLocaleString()}`);
+  console.log(`  🏆 ${i + 1}. ${category}: ${formatMoney(total)}`);
 });
 
-console.log('\n✅ Step 4 Complete - Rolling snapshots with constant memory');
-console.log('💡 Key: Each page update maintains only top-N + running totals');
+// --- Same fold, different leaderboard ---------------------------------------
+// Exact: one running total per customer, so memory grows with the customers
+console.log('\n👥 Same pipeline keyed by customer:\n');
+
+const topCustomers = defineAggregation({ key: byCustomer });
+const customerTotals = await streamTopN(orderPagesFromArgs(), topCustomers, 3, () => {});
+topNFromMap(customerTotals, 3).forEach(([customerId, total], i) => {
+  console.log(`  ${i + 1}. ${customerId}: ${formatMoney(total)}`);
+});
+
+// --- Approximate top-K for high-cardinality keys -----------------------------
+// The only fold here whose memory stays fixed however many keys there are
+console.log('\n🧮 Top SKUs with a fixed 64-counter Space-Saving sketch:\n');
+
+const skuSketch = spaceSaving<string>({ capacity: 64 });
+await streamTopN(orderPagesFromArgs(), defineAggregation({ key: bySku }), 3, () => {}, { ranker: skuSketch });
+skuSketch.topWithError(3).forEach(({ key, estimate, error, guaranteed }, i) => {
+  console.log(`  ${i + 1}. ${key}: ≤ ${formatMoney(estimate)} (± ${formatMoney(error)})${guaranteed ? '' : ' ?'}`);
+});
+console.log(`  max error for any SKU: ${formatMoney(Math.ceil(skuSketch.maxError()))}`);
+
+// --- Several metrics in one pass ---------------------------------------------
+// One state per category; the sketches inside keep each of them bounded
+console.log('\n📐 Categories by distinct customers, with every metric from the same pass:\n');
+
+const categoryMetrics = await streamTopMetrics(orderPagesFromArgs(), { key: byCategory }, allMetrics, 'customers', 3, () => {});
+categoryMetrics.top(3).forEach(({ key, values }, i) => {
+  console.log(`  ${i + 1}. ${key}: ≈${values.customers} customers, ${values.orders} orders, ${values.units} units`);
+  console.log(`     AOV ${formatMoney(values.aov)} (${formatMoney(values.minOrder)}–${formatMoney(values.maxOrder)}), line p50 ≈${formatMoney(values.p50Line)}, p95 ≈${formatMoney(values.p95Line)}`);
+});
+
+// --- Net revenue: later versions of an order are updates ---------------------
+// Remembers every order to reconcile it (no `settleAfterMs` here), so memory
+// grows with the orders; the server settles them after a horizon
+console.log('\n💸 Net revenue (refunds and cancellations reconciled by order id):\n');
+
+const netTotals = await streamNetRevenueByCategory(orderPagesFromArgs(), 3, () => {});
+netTotals.entries()
+  .toArray()
+  .toSorted((a, b) => b[1].net - a[1].net)
+  .forEach(([category, { gross, refunded, net }], i) => {
+    console.log(`  ${i + 1}. ${category}: net ${formatMoney(net)} (gross ${formatMoney(gross)}, refunded ${formatMoney(refunded)})`);
+  });
+
+console.log('\n✅ Step 4 Complete - Rolling snapshots, page by page');
+console.log('💡 Key: Memory follows the distinct keys; a sketch caps even that, the ledger needs a settle horizon');
 console.log('🔄 Perfect for live dashboards and long-running data streams');
 console.log('⚠️  Note: for-await loop represents current FP boundary in JS');